@@ -1,21 +1,52 @@
-import type { BuildConfig } from 'bun'
+import { Glob, type BunPlugin } from 'bun'
 import dts from 'bun-plugin-dts'
+import { rmSync } from 'node:fs'
 
-const defaultBuildConfig: BuildConfig = {
-  entrypoints: ['./src/index.ts'],
-  outdir: './dist'
+const outdir = './dist'
+
+// Chunk names are hashed, so stale ones would pile up (and be converted to CommonJS below).
+rmSync(outdir, { recursive: true, force: true })
+
+// Zod stays a peer dependency: a bundled copy would not recognise the user's schemas (every `instanceof` check fails).
+const external = ['zod']
+
+// The entry points share their core (MaybeError, Maybe, ...) through chunks instead of each bundling a copy.
+const esm = await Bun.build({
+  entrypoints: ['./src/index.ts', './src/testing/index.ts', './src/config.ts', './src/cli.ts'],
+  outdir,
+  target: 'node',
+  format: 'esm',
+  splitting: true,
+  external,
+  plugins: [dts()],
+  naming: {
+    entry: "[dir]/[name].js",
+    chunk: "[name]-[hash].js",
+  },
+})
+
+if (!esm.success) throw new AggregateError(esm.logs, 'The ESM build failed')
+
+// Bun only splits ESM builds, so the CommonJS files are converted one by one from the ESM ones, keeping the
+// imports between them.
+const requireSiblings: BunPlugin = {
+  name: 'require-siblings',
+  setup(build) {
+    build.onResolve({ filter: /^\.\.?\// }, ({ path, importer }) =>
+      importer ? { path: path.replace(/\.js$/, '.cjs'), external: true } : undefined
+    )
+  }
 }
 
-await Promise.all([
-  Bun.build({
-    ...defaultBuildConfig,
-    plugins: [dts()],
-    format: 'esm',
-    naming: "[dir]/[name].js",
-  }),
-  Bun.build({
-    ...defaultBuildConfig,
-    format: 'cjs',
-    naming: "[dir]/[name].cjs",
-  })
-])
+const cjs = await Bun.build({
+  entrypoints: [...new Glob('**/*.js').scanSync(outdir)].map((file) => `${outdir}/${file}`),
+  root: outdir,
+  outdir,
+  target: 'node',
+  format: 'cjs',
+  external,
+  plugins: [requireSiblings],
+  naming: "[dir]/[name].cjs",
+})
+
+if (!cjs.success) throw new AggregateError(cjs.logs, 'The CommonJS build failed')
@@ -10,14 +10,14 @@ const postSchema = z.object({
 
 type Post = z.infer<typeof postSchema>;
 
-const invalidPost: any = {
+const invalidPost = {
   title: "Short",
   content: "Too brief...",
   tags: ["tag1", "tag2", "tag3", "tag4", "tag5", "tag6"],
   publishDate: new Date("2020-01-01")
 };
 
-AsyncMaybe<Post, string>((d: Post) => d.title, postSchema ) (Promise.resolve(invalidPost))
+AsyncMaybe((d: Post) => d.title, postSchema ) (Promise.resolve(invalidPost))
   .then(([postErr]) => {
     console.log('Blog Post Errors:', postErr);
   });
\ No newline at end of file
@@ -16,7 +16,7 @@ const orderSchema = z.object({
 
 type Order = z.infer<typeof orderSchema>;
 
-const invalidOrder: any = {
+const invalidOrder = {
   items: [],
   total: 0,
   shippingAddress: {
@@ -26,5 +26,5 @@ const invalidOrder: any = {
   }
 };
 
-const [orderErr] = Maybe<Order, string>(() => {return 'error'}, orderSchema)(invalidOrder);
+const [orderErr] = Maybe((order: Order) => {return 'error'}, orderSchema)(invalidOrder);
 console.log('Order Processing Errors:', orderErr);
\ No newline at end of file
@@ -17,5 +17,5 @@ const invalidProduct = {
   stock: -5
 };
 
-const [productErr] = Maybe<Product, string>(() => {return 'error'}, productSchema)(invalidProduct);
+const [productErr] = Maybe((product: Product) => {return 'error'}, productSchema)(invalidProduct);
 console.log('Product Validation Errors:', productErr);
\ No newline at end of file
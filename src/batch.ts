@@ -0,0 +1,138 @@
+import { formatPath, type MaybeError, type MaybeTuple } from "./errors";
+
+/**
+ * The outcome of validating one item of a batch.
+ *
+ * @template U - The type of the validator's result.
+ */
+export type BatchEntry<U> = {
+  index: number;
+  error: MaybeError | null;
+  result: U | null;
+};
+
+/**
+ * Failures sharing the same path and message, with the indexes of the items they occurred in.
+ */
+export type BatchFailure = {
+  path: string;
+  message: string;
+  count: number;
+  indexes: number[];
+};
+
+export type BatchSummary = {
+  total: number;
+  valid: number;
+  invalid: number;
+  skipped: number;
+  failures: BatchFailure[];
+};
+
+/**
+ * The per-item results of a batch, ordered by index, and their summary.
+ * Items skipped because of `failFast` have no entry.
+ */
+export type BatchResult<U> = {
+  results: BatchEntry<U>[];
+  summary: BatchSummary;
+};
+
+/**
+ * @property {boolean} [failFast] - Stop validating new items after the first failure.
+ */
+export type BatchOptions = {
+  failFast?: boolean;
+};
+
+/**
+ * @property {number} [concurrency] - The maximum number of items validated at the same time. Unbounded by default.
+ */
+export type AsyncBatchOptions = BatchOptions & {
+  concurrency?: number;
+};
+
+const summarize = <U>(results: BatchEntry<U>[], total: number): BatchSummary => {
+  const failures = new Map<string, BatchFailure>();
+  const record = (path: string, message: string, index: number) => {
+    const key = JSON.stringify([path, message]);
+    const failure = failures.get(key) ?? { path, message, count: 0, indexes: [] };
+    failure.count += 1;
+    failure.indexes.push(index);
+    failures.set(key, failure);
+  };
+
+  for (const { index, error } of results) {
+    if (!error) continue;
+    if (!error.issues.length) record('', error.message, index);
+    for (const issue of error.issues) record(formatPath(issue.path), issue.message, index);
+  }
+
+  const invalid = results.filter(({ error }) => error).length;
+
+  return {
+    total,
+    valid: results.length - invalid,
+    invalid,
+    skipped: total - results.length,
+    failures: [...failures.values()].sort((a, b) => b.count - a.count)
+  };
+};
+
+/**
+ * Validates every item of an array (or iterable) with a Maybe validator.
+ *
+ * @template U - The type of the validator's result.
+ * @param {Iterable<unknown>} items - The items to validate.
+ * @param {function} validator - A validator created by Maybe.
+ * @param {BatchOptions} [options] - Batch settings, such as `failFast`.
+ * @returns {BatchResult<U>} - The per-index results and a summary with failures grouped by path and message.
+ */
+export const batch = <U>(items: Iterable<unknown>, validator: (data: unknown) => MaybeTuple<U>, options: BatchOptions = {}): BatchResult<U> => {
+  const inputs = Array.from(items);
+  const results: BatchEntry<U>[] = [];
+
+  for (const [index, item] of inputs.entries()) {
+    const [error, result] = validator(item);
+    results.push({ index, error, result });
+    if (error && options.failFast) break;
+  }
+
+  return { results, summary: summarize(results, inputs.length) };
+};
+
+/**
+ * Validates every item of an array (or iterable) with an AsyncMaybe validator, running at most
+ * `concurrency` validations at the same time.
+ *
+ * @template U - The type of the validator's result.
+ * @param {Iterable<unknown>} items - The items to validate.
+ * @param {function} validator - A validator created by AsyncMaybe (or Maybe).
+ * @param {AsyncBatchOptions} [options] - Batch settings, such as `concurrency` and `failFast`.
+ * @returns {Promise<BatchResult<U>>} - A promise of the per-index results and a summary with failures grouped by path and message.
+ */
+export const asyncBatch = async <U>(
+  items: Iterable<unknown>,
+  validator: (data: unknown) => MaybeTuple<U> | Promise<MaybeTuple<U>>,
+  { concurrency = Infinity, failFast = false }: AsyncBatchOptions = {}
+): Promise<BatchResult<U>> => {
+  const inputs = Array.from(items);
+  const results: BatchEntry<U>[] = [];
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (next < inputs.length && !(failFast && failed)) {
+      const index = next++;
+      const [error, result] = await validator(inputs[index]);
+      results.push({ index, error, result });
+      failed ||= error !== null;
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, inputs.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  results.sort((a, b) => a.index - b.index);
+
+  return { results, summary: summarize(results, inputs.length) };
+};
@@ -0,0 +1,316 @@
+import { createReadStream } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { extname, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import { MaybeError, formatPath, type MaybeTuple } from "./errors";
+import { fromEntries } from "./input";
+import { AsyncMaybe } from "./maybe";
+import { validateNdjson, validateStream, type StreamRecord, type StreamTuple } from "./stream";
+
+/**
+ * The streams and working directory the CLI runs with. Defaults to the current process.
+ */
+export type CliIO = {
+  stdin: AsyncIterable<string | Uint8Array>;
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+  cwd: string;
+};
+
+type Format = 'json' | 'ndjson' | 'csv';
+
+type Validator = (data: unknown) => Promise<MaybeTuple<unknown>>;
+
+type Row = Record<string, string>;
+
+type CsvRow = { line: number; cells: string[]; unclosed?: boolean };
+
+/**
+ * A rejected record, as listed in the JSON report.
+ */
+export type CliRejection = {
+  file: string;
+  line: number;
+  kind: MaybeError['kind'];
+  message: string;
+  issues: { path: string; code: string; message: string }[];
+};
+
+const formats: Format[] = ['json', 'ndjson', 'csv'];
+
+const typeScriptExtensions = ['.ts', '.mts', '.cts'];
+
+const usage = `Usage: maybe-zod <module> <export> [files...] [options]
+
+Validates JSON, NDJSON or CSV records against a Zod schema or a Maybe validator exported by a module.
+Reads stdin when no file (or "-") is given.
+
+Options:
+  -f, --format <json|ndjson|csv>  Input format (default: from the file extension, ndjson for stdin)
+  -r, --report <text|json>        Report format (default: text)
+      --rejects <file>            Write the rejected records to a file (.json, .csv or NDJSON)
+  -h, --help                      Show this help
+
+Exit codes: 0 when every record is valid, 1 when some are invalid, 2 on usage or loading errors.
+`;
+
+class CliError extends Error {}
+
+const isSchema = (value: unknown): value is z.ZodTypeAny =>
+  typeof value === 'object' && value !== null && typeof (value as z.ZodTypeAny).safeParseAsync === 'function';
+
+const loadValidator = async (modulePath: string, name: string, cwd: string): Promise<{ validate: Validator; schema?: z.ZodTypeAny }> => {
+  let module: Record<string, unknown>;
+  try {
+    module = await import(pathToFileURL(resolve(cwd, modulePath)).href);
+  } catch (error) {
+    // Node before 22.18 does not strip types, and the bin runs under whatever `node` is on the path.
+    if ((error as { code?: string }).code === 'ERR_UNKNOWN_FILE_EXTENSION' && typeScriptExtensions.includes(extname(modulePath))) {
+      throw new CliError(`Cannot load ${modulePath}: this Node version cannot load TypeScript modules. Use Node 22.18+, run \`bunx --bun maybe-zod\`, or compile the module to JavaScript`);
+    }
+    throw new CliError(`Cannot load ${modulePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const exported = module[name];
+  if (isSchema(exported)) return { validate: AsyncMaybe((data) => data, exported), schema: exported };
+  if (typeof exported !== 'function') throw new CliError(`${modulePath} has no schema or validator exported as "${name}"`);
+
+  return {
+    validate: async (data) => {
+      const tuple = await exported(data);
+      if (!Array.isArray(tuple)) throw new CliError(`"${name}" is not a Maybe validator: it did not return an [error, result] tuple`);
+      return tuple as MaybeTuple<unknown>;
+    }
+  };
+};
+
+const readText = async (source: AsyncIterable<string | Uint8Array>) => {
+  const decoder = new TextDecoder();
+  let text = '';
+  for await (const chunk of source) text += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  return text + decoder.decode();
+};
+
+/**
+ * Parses RFC 4180 CSV text into rows of cells, each with the line it starts on. A quote that never closes takes
+ * the rest of the text into its cell, so that last row is flagged as `unclosed`.
+ */
+const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== '') rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]!;
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line += 1;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+      line += 1;
+      rowLine = line;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  if (cell || cells.length || quoted) endRow();
+  if (quoted) rows[rows.length - 1]!.unclosed = true;
+
+  return rows;
+};
+
+const unclosedQuote = () => new MaybeError('parse', 'Invalid CSV: a quoted cell is never closed');
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const validateSource = async function* (
+  source: AsyncIterable<string | Uint8Array>,
+  format: Format,
+  { validate, schema }: { validate: Validator; schema?: z.ZodTypeAny }
+): AsyncGenerator<StreamTuple<unknown>> {
+  if (format === 'ndjson') {
+    yield* validateNdjson(source, validate);
+    return;
+  }
+
+  const text = await readText(source);
+
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      yield [new MaybeError('parse', 'Invalid JSON', { cause: error }), null, { line: 1, input: text }];
+      return;
+    }
+    yield* validateStream(Array.isArray(data) ? data : [data], validate);
+    return;
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return;
+  if (header.unclosed) {
+    yield [unclosedQuote(), null, { line: header.line, input: header.cells }];
+    return;
+  }
+
+  for (const { line, cells, unclosed } of rows) {
+    const row: Row = Object.fromEntries(header.cells.map((name, index) => [name, cells[index] ?? '']));
+    if (unclosed) {
+      yield [unclosedQuote(), null, { line, input: row }];
+      continue;
+    }
+    const [error, result] = await validate(schema ? fromEntries(Object.entries(row), schema) : row);
+    yield [error, result, { line, input: row }];
+  }
+};
+
+const formatOf = (file: string, format: string | undefined): Format => {
+  if (format !== undefined) {
+    if (!formats.includes(format as Format)) throw new CliError(`Unknown format "${format}", expected json, ndjson or csv`);
+    return format as Format;
+  }
+  const extension = extname(file).slice(1).toLowerCase();
+  if (extension === 'jsonl') return 'ndjson';
+  return formats.includes(extension as Format) ? (extension as Format) : 'ndjson';
+};
+
+const toRejection = (file: string, error: MaybeError, { line }: StreamRecord): CliRejection => ({
+  file,
+  line,
+  kind: error.kind,
+  message: error.message,
+  issues: error.issues.map((issue) => ({ path: formatPath(issue.path), code: issue.code, message: issue.message }))
+});
+
+const textReport = (rejections: CliRejection[], total: number) => {
+  const lines = rejections.flatMap(({ file, line, message, issues }) => [
+    `${file}:${line}`,
+    ...(issues.length ? issues.map(({ path, message }) => `  ${path ? `${path}: ` : ''}${message}`) : [`  ${message}`])
+  ]);
+  const summary = `${total} record${total === 1 ? '' : 's'}: ${total - rejections.length} valid, ${rejections.length} invalid`;
+
+  return [...lines, ...(lines.length ? [''] : []), summary].join('\n') + '\n';
+};
+
+const writeRejects = async (path: string, records: unknown[]) => {
+  const format = formatOf(path, undefined);
+
+  if (format === 'json') return writeFile(path, `${JSON.stringify(records, null, 2)}\n`);
+  if (format === 'ndjson') return writeFile(path, records.map((record) => `${typeof record === 'string' ? record : JSON.stringify(record)}\n`).join(''));
+
+  const objects = records.filter((record): record is Record<string, unknown> => typeof record === 'object' && record !== null);
+  const columns = [...new Set(objects.flatMap((record) => Object.keys(record)))];
+  const lines = [columns.map(csvCell).join(','), ...objects.map((record) => columns.map((column) => csvCell(record[column])).join(','))];
+  return writeFile(path, `${lines.join('\n')}\n`);
+};
+
+/**
+ * Runs the `maybe-zod` command line tool.
+ *
+ * @param {string[]} args - The command line arguments, without the node and script paths.
+ * @param {CliIO} [io] - The streams and working directory to use, the current process's by default.
+ * @returns {Promise<number>} - The exit code: 0 when every record is valid, 1 when some are not, 2 on usage or loading errors.
+ */
+export const runCli = async (
+  args: string[],
+  { stdin, stdout, stderr, cwd }: CliIO = { stdin: process.stdin, stdout: process.stdout, stderr: process.stderr, cwd: process.cwd() }
+): Promise<number> => {
+  try {
+    const { values, positionals } = (() => {
+      try {
+        return parseArgs({
+          args,
+          allowPositionals: true,
+          options: {
+            format: { type: 'string', short: 'f' },
+            report: { type: 'string', short: 'r', default: 'text' },
+            rejects: { type: 'string' },
+            help: { type: 'boolean', short: 'h' }
+          }
+        });
+      } catch (error) {
+        throw new CliError((error as Error).message);
+      }
+    })();
+
+    if (values.help) {
+      stdout.write(usage);
+      return 0;
+    }
+
+    const [modulePath, name, ...files] = positionals;
+    if (!modulePath || !name) throw new CliError('Missing the module and the export to validate with');
+    if (values.report !== 'text' && values.report !== 'json') throw new CliError(`Unknown report "${values.report}", expected text or json`);
+
+    const validator = await loadValidator(modulePath, name, cwd);
+    const rejections: CliRejection[] = [];
+    const rejected: unknown[] = [];
+    let total = 0;
+
+    for (const file of files.length ? files : ['-']) {
+      const label = file === '-' ? '<stdin>' : file;
+      const source = file === '-' ? stdin : createReadStream(resolve(cwd, file));
+
+      try {
+        for await (const [error, , record] of validateSource(source, formatOf(file === '-' ? '' : file, values.format), validator)) {
+          total += 1;
+          if (!error) continue;
+          rejections.push(toRejection(label, error, record));
+          rejected.push(record.input);
+        }
+      } catch (error) {
+        if (error instanceof CliError) throw error;
+        throw new CliError(`Cannot read ${label}: ${(error as Error).message}`);
+      }
+    }
+
+    if (values.rejects) {
+      try {
+        await writeRejects(resolve(cwd, values.rejects), rejected);
+      } catch (error) {
+        throw new CliError(`Cannot write ${values.rejects}: ${(error as Error).message}`);
+      }
+    }
+
+    stdout.write(
+      values.report === 'json'
+        ? `${JSON.stringify({ total, valid: total - rejections.length, invalid: rejections.length, rejections }, null, 2)}\n`
+        : textReport(rejections, total)
+    );
+
+    return rejections.length ? 1 : 0;
+  } catch (error) {
+    if (!(error instanceof CliError)) throw error;
+    stderr.write(`maybe-zod: ${error.message}\nRun "maybe-zod --help" for usage.\n`);
+    return 2;
+  }
+};
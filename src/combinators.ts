@@ -0,0 +1,100 @@
+import { MaybeError, type MaybeTuple } from "./errors";
+import { toResult, type MaybeResult } from "./result";
+import { then, type Settle } from "./settle";
+
+export type AnyValidator = (data: any) => MaybeTuple<any> | Promise<MaybeTuple<any>>;
+
+type Validators = Record<string, AnyValidator> | readonly AnyValidator[];
+
+type ValidatorOf<V extends Validators> = V extends readonly AnyValidator[] ? V[number] : V[keyof V];
+
+export type ResultOf<F> = F extends AnyValidator ? Extract<Awaited<ReturnType<F>>, [null, unknown]>[1] : never;
+
+export type InputOf<F> = F extends (data: infer I, ...args: any[]) => unknown ? I : never;
+
+type AnyAsync<V extends Validators> = [Extract<ReturnType<ValidatorOf<V>>, Promise<unknown>>] extends [never] ? false : true;
+
+type Values<T> = T extends readonly unknown[] ? T[number] : T[keyof T];
+
+type Source<K> = K extends `${infer N extends number}` ? N : K;
+
+/**
+ * The inputs of a combined validator: one entry per source, in the same shape (record or tuple) as the validators.
+ */
+export type InputsOf<V extends Validators> = { [K in keyof V]: InputOf<V[K]> };
+
+/**
+ * The results of a combined validator: one entry per source, in the same shape (record or tuple) as the validators.
+ */
+export type ResultsOf<V extends Validators> = { -readonly [K in keyof V]: ResultOf<V[K]> };
+
+/**
+ * The result of `firstOk`: which source succeeded, and its result.
+ */
+export type FirstOk<V extends Validators> = Values<{ [K in keyof V]: { source: Source<K>; result: ResultOf<V[K]> } }>;
+
+const sourcesOf = (validators: Validators): (string | number)[] =>
+  Array.isArray(validators) ? validators.map((_, index) => index) : Object.keys(validators);
+
+const validatorAt = (validators: Validators, source: string | number) =>
+  (validators as Record<string | number, AnyValidator>)[source]!;
+
+/**
+ * Combines a record (or tuple) of validators into one validator taking one input per source.
+ * Every validator runs, in parallel when async, and every error is collected with its path prefixed by its source.
+ *
+ * @template V - The record or tuple of validators.
+ * @param {V} validators - Validators created by Maybe, AsyncMaybe or pipe.
+ * @returns {function} - A validator returning the typed results of all sources when they all succeed, or a combined MaybeError.
+ */
+export const all = <const V extends Validators>(validators: V) => (inputs: InputsOf<V>): Settle<ResultsOf<V>, AnyAsync<V>> => {
+  const sources = sourcesOf(validators);
+  const tuples = sources.map((source) => validatorAt(validators, source)((inputs as Record<string | number, unknown>)[source]));
+
+  const collect = (settled: MaybeTuple<unknown>[]): MaybeResult<ResultsOf<V>> => {
+    const errors: [string | number, MaybeError][] = [];
+    const results: Record<string | number, unknown> = {};
+
+    settled.forEach(([error, result], index) => {
+      const source = sources[index]!;
+      if (error) errors.push([source, error]);
+      else results[source] = result;
+    });
+
+    if (errors.length) return toResult<ResultsOf<V>>([MaybeError.combine(errors), null]);
+
+    return toResult([null, (Array.isArray(validators) ? sources.map((source) => results[source]) : results) as ResultsOf<V>]);
+  };
+
+  const settled = tuples.some((tuple) => tuple instanceof Promise)
+    ? Promise.all(tuples).then(collect)
+    : collect(tuples as MaybeTuple<unknown>[]);
+
+  return settled as Settle<ResultsOf<V>, AnyAsync<V>>;
+};
+
+/**
+ * Combines a record (or tuple) of validators into one validator that tries each of them, in order, on the same input
+ * and returns the first success. When every validator fails, their errors are combined as in `all`.
+ *
+ * @template V - The record or tuple of validators.
+ * @param {V} validators - Validators created by Maybe, AsyncMaybe or pipe.
+ * @returns {function} - A validator returning the source that succeeded and its result.
+ */
+export const firstOk = <const V extends Validators>(validators: V) => (data: InputOf<ValidatorOf<V>>): Settle<FirstOk<V>, AnyAsync<V>> => {
+  const sources = sourcesOf(validators);
+  const errors: [string | number, MaybeError][] = [];
+
+  const attempt = (index: number): MaybeResult<FirstOk<V>> | Promise<MaybeResult<FirstOk<V>>> => {
+    const source = sources[index];
+    if (source === undefined) return toResult<FirstOk<V>>([MaybeError.combine(errors), null]);
+
+    return then(validatorAt(validators, source)(data), ([error, result]: MaybeTuple<unknown>) => {
+      if (!error) return toResult([null, { source, result } as FirstOk<V>]);
+      errors.push([source, error]);
+      return attempt(index + 1);
+    });
+  };
+
+  return attempt(0) as Settle<FirstOk<V>, AnyAsync<V>>;
+};
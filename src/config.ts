@@ -0,0 +1,194 @@
+import { readFileSync } from "node:fs";
+import { extname, resolve } from "node:path";
+import { z } from "zod";
+import { MaybeError, formatPath } from "./errors";
+import { coerce, unwrap } from "./input";
+import { Maybe } from "./maybe";
+import { toResult, type MaybeResult } from "./result";
+
+/**
+ * Where `loadConfig` reads the configuration from.
+ *
+ * @property {string[]} [files] - `.env`-style files and `.json` files, in increasing order of precedence. Missing files are skipped.
+ * @property {Record<string, string | undefined>} [env] - The environment, `process.env` by default. It overrides every file.
+ * @property {string} [prefix] - Only variables starting with the prefix are read, without it, e.g. `APP_PORT` for `PORT`.
+ * @property {string} [separator] - Splits variables where the schema expects a list, `,` by default.
+ * @property {string} [cwd] - The directory files are resolved from, the current one by default.
+ */
+export type ConfigOptions = {
+  files?: string[];
+  env?: Record<string, string | undefined>;
+  prefix?: string;
+  separator?: string;
+  cwd?: string;
+};
+
+/**
+ * A deeply read-only version of a type, as returned for frozen objects.
+ */
+export type DeepReadonly<T> = T extends (...args: any[]) => unknown
+  ? T
+  : T extends Date | URL | RegExp | Map<unknown, unknown> | Set<unknown>
+    ? T
+    : T extends object
+      ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+      : T;
+
+/**
+ * The configuration loaded for a schema: its output, frozen.
+ *
+ * @template S - The Zod schema of the configuration.
+ */
+export type Config<S extends z.ZodTypeAny> = DeepReadonly<z.output<S>>;
+
+type Tree = Record<string, unknown>;
+
+const NESTING = '__';
+
+const isTree = (value: unknown): value is Tree =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+const deepFreeze = <T>(value: T): DeepReadonly<T> => {
+  if (isTree(value) || Array.isArray(value)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value as DeepReadonly<T>;
+};
+
+/**
+ * Parses the `KEY=value` lines of a `.env` file. Supports comments, `export` and single or double quoted values.
+ */
+const parseDotenv = (text: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match) continue;
+
+    const [, key = '', raw = ''] = match;
+    const quoted = /^(["'])(.*)\1(?:\s+#.*)?$/.exec(raw);
+    values[key] = !quoted
+      ? raw.replace(/\s+#.*$/, '')
+      : quoted[1] === '"'
+        ? quoted[2]!.replace(/\\n/g, '\n').replace(/\\(["\\])/g, '$1')
+        : quoted[2]!;
+  }
+
+  return values;
+};
+
+/**
+ * Turns variables into a tree, `DB__HOST` becoming `{ DB: { HOST } }`. Empty variables count as unset, and variables
+ * the schema does not describe are left out so that strict schemas only see their own keys.
+ */
+const fromVariables = (variables: Record<string, string | undefined>, prefix: string, schema: z.ZodTypeAny): Tree => {
+  const shape = unwrap(schema) instanceof z.ZodObject ? (unwrap(schema) as z.AnyZodObject).shape : undefined;
+  const tree: Tree = {};
+
+  for (const [name, value] of Object.entries(variables)) {
+    if (value === undefined || value === '' || !name.startsWith(prefix)) continue;
+
+    const path = name.slice(prefix.length).split(NESTING);
+    if (shape && !(path[0]! in shape)) continue;
+
+    let node = tree;
+    path.slice(0, -1).forEach((segment) => {
+      if (!isTree(node[segment])) node[segment] = {};
+      node = node[segment] as Tree;
+    });
+    node[path[path.length - 1]!] = value;
+  }
+
+  return tree;
+};
+
+const readFile = (path: string): string | undefined => {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+};
+
+/**
+ * Copies the leaves of `source` into `target`, recording which source each dotted path came from.
+ */
+const merge = (target: Tree, source: Tree, label: string, sources: Map<string, string>, path: string[] = []) => {
+  for (const [key, value] of Object.entries(source)) {
+    const keyPath = [...path, key];
+    if (isTree(value)) {
+      if (!isTree(target[key])) target[key] = {};
+      merge(target[key] as Tree, value, label, sources, keyPath);
+    } else {
+      target[key] = value;
+      sources.set(formatPath(keyPath), label);
+    }
+  }
+};
+
+const sourceOf = (path: (string | number)[], sources: Map<string, string>) => {
+  for (let length = path.length; length > 0; length -= 1) {
+    const source = sources.get(formatPath(path.slice(0, length)));
+    if (source) return source;
+  }
+  return 'unset';
+};
+
+const formatTable = (rows: string[][]) => {
+  const widths = rows[0]!.map((_, column) => Math.max(...rows.map((row) => row[column]!.length)));
+  return rows.map((row) => `  ${row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd()}`).join('\n');
+};
+
+const describeConfigIssues = (issues: z.ZodIssue[], prefix: string, sources: Map<string, string>) => {
+  const rows = issues.map((issue) => [
+    issue.path.length ? `${prefix}${issue.path.join(NESTING)}` : '(config)',
+    sourceOf(issue.path, sources),
+    issue.message
+  ]);
+  const count = `${issues.length} problem${issues.length === 1 ? '' : 's'}`;
+
+  return `Invalid configuration, ${count}:\n${formatTable([['Variable', 'Source', 'Problem'], ...rows])}`;
+};
+
+/**
+ * Loads a configuration from `.env` files, JSON files and the environment, validated with a schema.
+ * Later sources override earlier ones: the files in the order given, then the environment. Nested keys are written
+ * `DB__HOST` in variables, and strings are converted to the numbers, booleans, dates and lists the schema expects.
+ *
+ * When the configuration is invalid, the error message is a table listing every missing and invalid variable with
+ * the source of its value, ready to be printed before exiting.
+ *
+ * @template S - The Zod schema of the configuration.
+ * @param {S} schema - The schema of the configuration.
+ * @param {ConfigOptions} [options] - The files, environment, prefix and list separator.
+ * @returns {MaybeResult<Config<S>>} - The frozen configuration, or a `validation` error (a `parse` one when a file cannot be read).
+ */
+export const loadConfig = <S extends z.ZodTypeAny>(
+  schema: S,
+  { files = [], env = process.env, prefix = '', separator = ',', cwd = process.cwd() }: ConfigOptions = {}
+): MaybeResult<Config<S>> => {
+  const merged: Tree = {};
+  const sources = new Map<string, string>();
+
+  for (const file of files) {
+    let values: Tree;
+    try {
+      const text = readFile(resolve(cwd, file));
+      if (text === undefined) continue;
+      values = extname(file) === '.json' ? JSON.parse(text) : fromVariables(parseDotenv(text), prefix, schema);
+    } catch (error) {
+      return toResult<Config<S>>([new MaybeError('parse', `Cannot read ${file}: ${(error as Error).message}`, { cause: error }), null]);
+    }
+    if (!isTree(values)) return toResult<Config<S>>([new MaybeError('parse', `Cannot read ${file}: expected a JSON object`), null]);
+    merge(merged, values, file, sources);
+  }
+  merge(merged, fromVariables(env, prefix, schema), 'env', sources);
+
+  const [error, config] = Maybe((data: z.output<S>) => deepFreeze(data), schema)(coerce(merged, schema, { separator }));
+  if (!error) return toResult([null, config as Config<S>]);
+  if (error.kind !== 'validation') return toResult<Config<S>>([error, null]);
+
+  return toResult<Config<S>>([new MaybeError('validation', describeConfigIssues(error.issues, prefix, sources), { issues: error.issues, cause: error.cause }), null]);
+};
@@ -0,0 +1,220 @@
+import { z } from "zod";
+import { MaybeError, type FieldErrors, type MaybeErrorKind, type MaybeTuple } from "./errors";
+import type { AsyncMaybeCallOptions } from "./maybe";
+
+/**
+ * A message delivered by a queue.
+ *
+ * @template T - The type of the body, before it is decoded.
+ * @property {string} id - The identifier of the message.
+ * @property {T} body - The payload given to the validator.
+ * @property {number} attempt - The delivery attempt, 1 on the first delivery.
+ * @property {Record<string, string>} [headers] - The attributes of the message.
+ */
+export type Message<T = unknown> = {
+  id: string;
+  body: T;
+  attempt: number;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Why a message was parked: its payload was rejected, or its processing kept failing.
+ *
+ * @property {string} reason - `rejected` when the failure cannot be fixed by a retry, `retries-exhausted` otherwise.
+ * @property {number} attempts - The number of deliveries of the message.
+ * @property {string} failedAt - When the message was parked, as an ISO 8601 date.
+ */
+export type DeadLetterDetails = {
+  reason: 'rejected' | 'retries-exhausted';
+  kind: MaybeErrorKind;
+  message: string;
+  issues: z.ZodIssue[];
+  fieldErrors: FieldErrors;
+  attempts: number;
+  failedAt: string;
+};
+
+/**
+ * What a consumer needs from a queue client.
+ *
+ * @template T - The type of the message bodies.
+ */
+export type Transport<T = unknown> = {
+  /** Removes a handled message from the queue. */
+  ack(message: Message<T>): void | Promise<void>;
+  /** Delivers the message again after `delay` milliseconds. */
+  nack(message: Message<T>, delay: number): void | Promise<void>;
+  /** Parks the message with the reason it failed. The consumer acks it afterwards. */
+  publishToDeadLetter(message: Message<T>, details: DeadLetterDetails): void | Promise<void>;
+};
+
+/**
+ * Options of a consumer.
+ *
+ * @property {number} [maxAttempts] - Deliveries before a failing message is parked, 3 by default.
+ * @property {function} [backoff] - The delay in milliseconds before retrying after a given attempt. Exponential by default.
+ * @property {MaybeErrorKind[]} [retryOn] - The failures worth a retry, `processor-threw` and `timeout` by default. Other failures are parked at once.
+ * @property {function} [decode] - Turns the body into the validator's input, e.g. `JSON.parse`. A throw is a `parse` failure.
+ * @property {number} [timeout] - Milliseconds after which an async validator call fails with `timeout`.
+ */
+export type ConsumerOptions<T = unknown> = {
+  maxAttempts?: number;
+  backoff?: (attempt: number) => number;
+  retryOn?: MaybeErrorKind[];
+  decode?: (body: T) => unknown;
+  timeout?: number;
+};
+
+/**
+ * What the consumer did with a message.
+ */
+export type ConsumeOutcome = 'acked' | 'retried' | 'dead-lettered';
+
+type ConsumerValidator = (data: any, options?: AsyncMaybeCallOptions) => MaybeTuple<unknown> | Promise<MaybeTuple<unknown>>;
+
+/**
+ * Creates an exponential backoff: `initial`, then multiplied by `factor` after each attempt, up to `max`.
+ *
+ * @param {object} [options] - The initial delay (100 ms), factor (2), maximum delay (30 s) and jitter, the fraction of
+ * the delay randomly removed (0).
+ * @returns {function} - The delay in milliseconds after a given attempt.
+ */
+export const exponentialBackoff = ({ initial = 100, factor = 2, max = 30_000, jitter = 0 } = {}) =>
+  (attempt: number): number => {
+    const delay = Math.min(max, initial * factor ** (attempt - 1));
+    return Math.round(delay * (1 - jitter * Math.random()));
+  };
+
+const toDetails = (error: MaybeError, reason: DeadLetterDetails['reason'], attempts: number): DeadLetterDetails => ({
+  reason,
+  kind: error.kind,
+  message: error.message,
+  issues: error.issues,
+  fieldErrors: error.fieldErrors,
+  attempts,
+  failedAt: new Date().toISOString()
+});
+
+/**
+ * Wraps a Maybe or AsyncMaybe validator into a queue consumer. Valid messages are processed and acked, messages
+ * failing validation are parked in the dead-letter queue with their issues, and processor failures are retried with
+ * a backoff until `maxAttempts`, then parked.
+ *
+ * @template T - The type of the message bodies.
+ * @param {function} validator - The validator each message body goes through.
+ * @param {Transport<T>} transport - The queue client.
+ * @param {ConsumerOptions<T>} [options] - The retry policy, decoding and timeout.
+ * @returns {function} - Handles a message, resolving with what was done with it.
+ */
+export const createConsumer = <T = unknown>(
+  validator: ConsumerValidator,
+  transport: Transport<T>,
+  { maxAttempts = 3, backoff = exponentialBackoff(), retryOn = ['processor-threw', 'timeout'], decode = (body) => body, timeout }: ConsumerOptions<T> = {}
+) =>
+  async (message: Message<T>): Promise<ConsumeOutcome> => {
+    let error: MaybeError | null;
+    try {
+      const data = decode(message.body);
+      [error] = await validator(data, timeout === undefined ? undefined : { timeout });
+    } catch (cause) {
+      error = MaybeError.fromUnknown('parse', cause);
+    }
+
+    if (!error) {
+      await transport.ack(message);
+      return 'acked';
+    }
+
+    const retryable = retryOn.includes(error.kind);
+    if (retryable && message.attempt < maxAttempts) {
+      await transport.nack(message, backoff(message.attempt));
+      return 'retried';
+    }
+
+    await transport.publishToDeadLetter(message, toDetails(error, retryable ? 'retries-exhausted' : 'rejected', message.attempt));
+    await transport.ack(message);
+    return 'dead-lettered';
+  };
+
+/**
+ * Creates an in-memory queue implementing `Transport`, for local development and tests.
+ *
+ * @template T - The type of the message bodies.
+ * @returns {object} - The transport, with `publish`, `run` and the acked and dead-lettered messages.
+ */
+export const createMemoryTransport = <T = unknown>() => {
+  const queue: Message<T>[] = [];
+  const scheduled = new Set<Promise<void>>();
+  const acked: Message<T>[] = [];
+  const deadLetters: { message: Message<T>; details: DeadLetterDetails }[] = [];
+  let sequence = 0;
+
+  // Handled messages leave the queue, whether `run` delivered them or they were given to a consumer directly.
+  const settle = (message: Message<T>) => {
+    const index = queue.indexOf(message);
+    if (index !== -1) queue.splice(index, 1);
+  };
+
+  return {
+    acked,
+    deadLetters,
+
+    /**
+     * Adds a message to the queue.
+     *
+     * @param {T} body - The payload.
+     * @param {Record<string, string>} [headers] - The attributes of the message.
+     * @returns {Message<T>} - The queued message.
+     */
+    publish: (body: T, headers?: Record<string, string>): Message<T> => {
+      sequence += 1;
+      const message: Message<T> = { id: String(sequence), body, attempt: 1, ...(headers ? { headers } : {}) };
+      queue.push(message);
+      return message;
+    },
+
+    ack: (message: Message<T>): void => {
+      settle(message);
+      acked.push(message);
+    },
+
+    nack: (message: Message<T>, delay: number): void => {
+      settle(message);
+      const retry = new Promise<void>((resolve) =>
+        setTimeout(() => {
+          queue.push({ ...message, attempt: message.attempt + 1 });
+          scheduled.delete(retry);
+          resolve();
+        }, delay)
+      );
+      scheduled.add(retry);
+    },
+
+    publishToDeadLetter: (message: Message<T>, details: DeadLetterDetails): void => {
+      deadLetters.push({ message, details });
+    },
+
+    /** The number of messages waiting, including those scheduled for a retry. */
+    pending: (): number => queue.length + scheduled.size,
+
+    /**
+     * Delivers the queued messages one at a time, including retries, until the queue is empty.
+     *
+     * @param {function} handler - The consumer, or any message handler.
+     * @returns {Promise<void>} - Resolves once no message is left.
+     */
+    run: async (handler: (message: Message<T>) => unknown): Promise<void> => {
+      while (queue.length || scheduled.size) {
+        const message = queue.shift();
+        if (message) await handler(message);
+        else await Promise.race(scheduled);
+      }
+    }
+  };
+};
+
+/**
+ * An in-memory queue, as created by `createMemoryTransport`.
+ */
+export type MemoryTransport<T = unknown> = ReturnType<typeof createMemoryTransport<T>>;
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { MaybeError, type MaybeTuple } from "./errors";
+import { AsyncMaybe, Maybe, type AsyncMaybeCallOptions, type MaybeCallOptions, type MaybeOptions } from "./maybe";
+import { toResult, type MaybeResult } from "./result";
+
+/**
+ * A schema, or a function building it from the call's context so that its refinements can read the context.
+ *
+ * @template S - The Zod schema.
+ * @template C - The type of the context.
+ */
+export type ContextualSchema<S extends z.ZodTypeAny, C> = S | ((context: C) => S);
+
+// A factory that throws fails the call with a validation error, like a refinement that throws.
+const schemaFor = <S extends z.ZodTypeAny, C>(schema: ContextualSchema<S, C>, context: C): MaybeTuple<S> => {
+  if (typeof schema !== 'function') return [null, schema];
+  try {
+    return [null, schema(context)];
+  } catch (error) {
+    return [MaybeError.fromUnknown('validation', error), null];
+  }
+};
+
+/**
+ * Like Maybe, for validators whose rules depend on the caller, e.g. "only admins may set the role". The validator
+ * takes a context next to the data, which the processor receives as its second argument and the schema factory as
+ * its only one. The context type is inferred from the annotation of either, and is required at the call site.
+ *
+ * ```typescript
+ * const updateUser = MaybeWithContext(
+ *   (user, { tenant }) => save(tenant, user),
+ *   ({ role }: { role: Role; tenant: string }) => userSchema.refine((user) => !user.role || role === 'admin', 'Only admins may set role')
+ * );
+ * updateUser(input, { role: 'editor', tenant: 'acme' });
+ * ```
+ *
+ * @template C - The type of the context.
+ * @template S - The Zod schema; the function receives its output type `z.output<S>`.
+ * @template U - The type of the output data after applying the function.
+ * @param {function} fn - A function taking the parsed data and the context.
+ * @param {ContextualSchema<S, C>} schema - The schema, or a function building it from the context. The function runs on every call, and an error it throws is returned as a `validation` error.
+ * @param {MaybeOptions<U>} [options] - The validator options, as for Maybe.
+ * @returns {function} - A function taking the data, the context and the per-call options, and returning a MaybeResult.
+ */
+export const MaybeWithContext = <C, S extends z.ZodTypeAny, U>(
+  fn: (params: z.output<S>, context: C) => U,
+  schema: ContextualSchema<S, C>,
+  options: MaybeOptions<U> = {}
+) =>
+  (data: z.input<S> | unknown, context: C, callOptions: MaybeCallOptions = {}): MaybeResult<U> => {
+    const [error, current] = schemaFor(schema, context);
+    if (error) return toResult<U>([error, null]);
+    return Maybe((params: z.output<S>) => fn(params, context), current, options)(data, callOptions);
+  };
+
+/**
+ * Like AsyncMaybe, for validators whose rules depend on the caller. See `MaybeWithContext`.
+ *
+ * @template C - The type of the context.
+ * @template S - The Zod schema; the function receives its output type `z.output<S>`.
+ * @template U - The type of the output data after applying the function.
+ * @param {function} fn - A function taking the parsed data and the context, and returning a value or a promise of it.
+ * @param {ContextualSchema<S, C>} schema - The schema, or a function building it from the context. Async refinements can read the context too.
+ * @param {MaybeOptions<U>} [options] - The validator options, as for AsyncMaybe.
+ * @returns {function} - A function taking the data, the context and the per-call options, and returning a promise of a MaybeResult.
+ */
+export const AsyncMaybeWithContext = <C, S extends z.ZodTypeAny, U>(
+  fn: (params: z.output<S>, context: C) => U | Promise<U>,
+  schema: ContextualSchema<S, C>,
+  options: MaybeOptions<U> = {}
+) =>
+  async (data: z.input<S> | PromiseLike<z.input<S>> | unknown, context: C, callOptions: AsyncMaybeCallOptions = {}): Promise<MaybeResult<U>> => {
+    const [error, current] = schemaFor(schema, context);
+    if (error) return toResult<U>([error, null]);
+    return AsyncMaybe((params: z.output<S>) => fn(params, context), current, options)(data, callOptions);
+  };
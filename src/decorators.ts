@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { createAsyncMaybeRunner, createMaybeRunner, isThenable, type MaybeOptions } from "./maybe";
+import type { MaybeResult } from "./result";
+
+type Method<This, U> = (this: This, input: any) => U;
+
+type Runner = (fn: (params: any) => unknown, data: unknown) => MaybeResult<unknown> | Promise<MaybeResult<unknown>>;
+
+const AsyncFunction = (async () => {}).constructor;
+
+const overrides = new WeakMap<object, Record<string | symbol, z.ZodTypeAny>>();
+
+/**
+ * Finds the schema of a method for the class of `target`: the closest override along the class chain, or the schema
+ * given to `@Validated`.
+ */
+const schemaOf = (target: object, name: string | symbol, fallback: z.ZodTypeAny): z.ZodTypeAny => {
+  for (let owner: object | null = target; owner && owner !== Function.prototype; owner = Object.getPrototypeOf(owner)) {
+    const schema = overrides.get(owner)?.[name];
+    if (schema) return schema;
+  }
+  return fallback;
+};
+
+/**
+ * A method decorator (TC39 decorators) validating the method's argument with a schema and returning the
+ * `[error, result]` shape: the method runs as the processor of a Maybe validator, or an AsyncMaybe one for async
+ * methods. Methods returning a promise without being `async` are awaited too, and once one has returned a promise
+ * every call returns one, validation errors included; declare such methods `async` so that holds from the first
+ * call. Subclasses inherit the schema, and can replace it with `@OverrideSchemas`.
+ *
+ * Decorators cannot change the type of a method, so declare what callers see in an overload:
+ *
+ * ```typescript
+ * createUser(input: unknown): Promise<MaybeResult<User>>;
+ * @Validated(userSchema)
+ * async createUser(user: z.output<typeof userSchema>): Promise<any> { ... }
+ * ```
+ *
+ * @template S - The Zod schema of the argument.
+ * @param {S} schema - The schema the argument is validated with.
+ * @param {MaybeOptions<unknown>} [options] - The validator options. The telemetry `name` defaults to the method name.
+ * @returns {function} - The method decorator.
+ */
+export const Validated = <S extends z.ZodTypeAny>(schema: S, options: MaybeOptions<unknown> = {}) =>
+  <This, U>(method: (this: This, input: z.output<S>) => U, context: ClassMethodDecoratorContext<This, Method<This, any>>) => {
+    const validatorOptions = { name: String(context.name), ...options };
+    const isAsync = method instanceof AsyncFunction;
+    // Set once the method returns a promise, so that callers awaiting it also get a promise when validation fails.
+    let returnsPromise = false;
+
+    // The validator of each class using the method, built with the schema of that class on its first call.
+    const runners = new WeakMap<object, Runner>();
+    const runnerOf = (owner: object): Runner => {
+      let runner = runners.get(owner);
+      if (!runner) {
+        const current = schemaOf(owner, context.name, schema);
+        runner = isAsync ? createAsyncMaybeRunner(current, validatorOptions) : createMaybeRunner(current, validatorOptions, { awaitProcessor: true });
+        runners.set(owner, runner);
+      }
+      return runner;
+    };
+
+    const decorated = function (this: This, input: unknown): MaybeResult<U> | Promise<MaybeResult<Awaited<U>>> {
+      const owner = (context.static ? this : (this as object).constructor) as object;
+      const result = runnerOf(owner)((params: z.output<S>) => method.call(this, params), input);
+      if (isThenable(result)) returnsPromise = true;
+      return (returnsPromise ? Promise.resolve(result) : result) as MaybeResult<U> | Promise<MaybeResult<Awaited<U>>>;
+    };
+
+    // The overload declared next to the method gives callers the result type.
+    return decorated as Method<This, any>;
+  };
+
+/**
+ * A class decorator replacing the schemas of inherited `@Validated` methods, keyed by method name.
+ *
+ * @param {Record<string, z.ZodTypeAny>} schemas - The new schemas of the methods.
+ * @returns {function} - The class decorator.
+ */
+export const OverrideSchemas = (schemas: Record<string | symbol, z.ZodTypeAny>) =>
+  (target: abstract new (...args: any[]) => unknown, _context: ClassDecoratorContext) => {
+    overrides.set(target, { ...overrides.get(target), ...schemas });
+  };
@@ -0,0 +1,158 @@
+import { z } from "zod";
+
+/**
+ * The different ways a Maybe validator can fail.
+ *
+ * - `validation`: the schema rejected the input data.
+ * - `parse`: the raw input could not be decoded, e.g. a malformed JSON line.
+ * - `output-validation`: the output schema rejected the value returned by the processor.
+ * - `processor-threw`: the processor function threw after validation succeeded.
+ * - `input-rejected`: the input promise given to an async validator rejected.
+ * - `timeout`: the validator did not settle in time.
+ * - `aborted`: the validator was cancelled through an AbortSignal.
+ * - `transport`: a remote procedure could not be called, e.g. it does not exist or the network failed.
+ */
+export type MaybeErrorKind = 'validation' | 'parse' | 'output-validation' | 'processor-threw' | 'input-rejected' | 'timeout' | 'aborted' | 'transport';
+
+/**
+ * Validation messages grouped by the dotted path of the field they belong to.
+ * Issues raised on the root value are stored under the empty string key.
+ */
+export type FieldErrors = Record<string, string[]>;
+
+type MaybeErrorOptions = {
+  issues?: z.ZodIssue[];
+  cause?: unknown;
+};
+
+/**
+ * Formats a Zod issue path as a dotted path, e.g. `['items', 0, 'qty']` becomes `items.0.qty`.
+ *
+ * @param {(string | number)[]} path - The issue path.
+ * @returns {string} - The dotted representation of the path.
+ */
+export const formatPath = (path: (string | number)[]): string => path.join('.');
+
+const toFieldErrors = (issues: z.ZodIssue[]): FieldErrors =>
+  issues.reduce<FieldErrors>((fieldErrors, issue) => {
+    const key = formatPath(issue.path);
+    (fieldErrors[key] ??= []).push(issue.message);
+    return fieldErrors;
+  }, {});
+
+const describeIssues = (issues: z.ZodIssue[]) =>
+  issues.map((issue) => (issue.path.length ? `${formatPath(issue.path)}: ${issue.message}` : issue.message)).join('\n');
+
+/**
+ * The error returned in the first slot of the `[error, result]` tuple.
+ *
+ * The `kind` tells what went wrong, `issues` holds the raw Zod issues (empty for non validation failures),
+ * and `fieldErrors` gives the same messages keyed by dotted path.
+ */
+export class MaybeError extends Error {
+  readonly kind: MaybeErrorKind;
+  readonly issues: z.ZodIssue[];
+  readonly fieldErrors: FieldErrors;
+
+  constructor(kind: MaybeErrorKind, message: string, { issues = [], cause }: MaybeErrorOptions = {}) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = 'MaybeError';
+    this.kind = kind;
+    this.issues = issues;
+    this.fieldErrors = toFieldErrors(issues);
+    if (cause instanceof Error && !(cause instanceof z.ZodError) && cause.stack) {
+      this.stack = `${this.stack}\nCaused by: ${cause.stack}`;
+    }
+  }
+
+  /**
+   * Builds a `validation` (or `output-validation`) error from a failed Zod parse.
+   *
+   * @param {z.ZodError} error - The error produced by `safeParse` or `safeParseAsync`.
+   * @param {MaybeErrorKind} kind - The kind of failure, `validation` by default.
+   * @returns {MaybeError} - The matching MaybeError.
+   */
+  static fromZodError(error: z.ZodError, kind: MaybeErrorKind = 'validation'): MaybeError {
+    return new MaybeError(kind, describeIssues(error.issues), { issues: error.issues, cause: error });
+  }
+
+  /**
+   * Wraps any thrown or rejected value, keeping the original value as the `cause`.
+   *
+   * @param {MaybeErrorKind} kind - The kind of failure.
+   * @param {unknown} cause - The thrown value.
+   * @returns {MaybeError} - The matching MaybeError.
+   */
+  static fromUnknown(kind: MaybeErrorKind, cause: unknown): MaybeError {
+    if (cause instanceof MaybeError) return cause;
+    const message = cause instanceof Error ? cause.message : String(cause);
+    return new MaybeError(kind, message, { cause });
+  }
+
+  /**
+   * Merges the errors of several sources into one. Issue paths are prefixed with the source they came from, and the
+   * kind is `validation` unless one of the sources failed for another reason.
+   *
+   * @param {[string | number, MaybeError][]} errors - The failing sources and their errors.
+   * @returns {MaybeError} - The combined error, with the per-source errors as its `cause`.
+   */
+  static combine(errors: [source: string | number, error: MaybeError][]): MaybeError {
+    const prefixed = errors.map(([source, error]) => ({
+      source,
+      error,
+      issues: error.issues.map((issue) => ({ ...issue, path: [source, ...issue.path] }))
+    }));
+    const kind = errors.find(([, error]) => error.kind !== 'validation')?.[1].kind ?? 'validation';
+    const message = prefixed
+      .map(({ source, error, issues }) => (issues.length ? describeIssues(issues) : `${source}: ${error.message}`))
+      .join('\n');
+
+    return new MaybeError(kind, message, { issues: prefixed.flatMap(({ issues }) => issues), cause: Object.fromEntries(errors) });
+  }
+
+  toString(): string {
+    return `${this.name} [${this.kind}]: ${this.message}`;
+  }
+
+  /**
+   * The error string returned before MaybeError existed: the JSON-stringified issue array for validation
+   * failures, and `'Unknown error'` for everything else.
+   *
+   * @returns {string} - The legacy error string.
+   */
+  toLegacyString(): string {
+    return this.kind === 'validation' ? JSON.stringify(this.issues, null, 2) : 'Unknown error';
+  }
+}
+
+/**
+ * The `[error, result]` tuple returned by validators. Exactly one of the two slots is `null`, so checking the error
+ * narrows the result.
+ */
+export type MaybeTuple<U> = [error: null, result: U] | [error: MaybeError, result: null];
+
+export type LegacyMaybeTuple<U> = [string | null, U | null];
+
+/**
+ * Adapts a Maybe or AsyncMaybe validator so that it keeps returning error strings instead of MaybeError.
+ * Meant as a migration path for code that still parses the error string.
+ *
+ * @param {function} validator - A validator created by Maybe or AsyncMaybe.
+ * @returns {function} - The same validator, with the error slot converted to its legacy string.
+ */
+export function withStringErrors<A extends unknown[], U>(
+  validator: (...args: A) => Promise<MaybeTuple<U>>
+): (...args: A) => Promise<LegacyMaybeTuple<U>>;
+export function withStringErrors<A extends unknown[], U>(
+  validator: (...args: A) => MaybeTuple<U>
+): (...args: A) => LegacyMaybeTuple<U>;
+export function withStringErrors<A extends unknown[], U>(
+  validator: (...args: A) => MaybeTuple<U> | Promise<MaybeTuple<U>>
+) {
+  const toLegacy = ([error, result]: MaybeTuple<U>): LegacyMaybeTuple<U> => [error?.toLegacyString() ?? null, result];
+
+  return (...args: A) => {
+    const tuple = validator(...args);
+    return tuple instanceof Promise ? tuple.then(toLegacy) : toLegacy(tuple);
+  };
+}
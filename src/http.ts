@@ -0,0 +1,188 @@
+import { z } from "zod";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { MaybeError, type MaybeErrorKind, type FieldErrors } from "./errors";
+import { fromFormData, fromSearchParams } from "./input";
+import { AsyncMaybe, type MaybeOptions } from "./maybe";
+
+/**
+ * The schemas of the parts of a request a handler validates.
+ */
+export type HandlerSchemas = {
+  body?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  params?: z.ZodTypeAny;
+};
+
+/**
+ * The validated parts of a request, as given to the handler's processor.
+ */
+export type HandlerInput<S extends HandlerSchemas> = { [K in keyof S]: S[K] extends z.ZodTypeAny ? z.output<S[K]> : never };
+
+/**
+ * @property {number} [timeout] - Milliseconds after which the handler answers with a 504 problem.
+ * @property {string | function} [locale] - The locale of the error messages, or a function picking it from the request.
+ */
+export type HandlerOptions<U> = Omit<MaybeOptions<U>, 'locale'> & {
+  timeout?: number;
+  locale?: string | ((request: Request) => string | undefined);
+};
+
+/**
+ * An RFC 7807 problem document, with the field errors of validation failures.
+ */
+export type Problem = {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  kind: MaybeErrorKind;
+  errors?: FieldErrors;
+};
+
+type RouteRequest = Request & { params?: Record<string, string> };
+
+/**
+ * The HTTP status and title of the failures caused by the request. Other failures answer 500.
+ */
+export const statuses: Partial<Record<MaybeErrorKind, [status: number, title: string]>> = {
+  validation: [400, 'Bad Request'],
+  parse: [400, 'Bad Request'],
+  'input-rejected': [400, 'Bad Request'],
+  timeout: [504, 'Gateway Timeout'],
+  aborted: [499, 'Client Closed Request']
+};
+
+/**
+ * Builds the `application/problem+json` response of a MaybeError. Validation failures answer 400 with their field
+ * errors; processor and output failures answer 500 without exposing their details.
+ *
+ * @param {MaybeError} error - The error to describe.
+ * @returns {Response} - The problem response.
+ */
+export const problemResponse = (error: MaybeError): Response => {
+  const [status, title] = statuses[error.kind] ?? [500, 'Internal Server Error'];
+  const problem: Problem = {
+    type: 'about:blank',
+    title,
+    status,
+    detail: status === 500 ? 'The request could not be processed' : error.message,
+    kind: error.kind,
+    ...(error.issues.length && status !== 500 ? { errors: error.fieldErrors } : {})
+  };
+
+  return new Response(JSON.stringify(problem), { status, headers: { 'content-type': 'application/problem+json' } });
+};
+
+const readBody = async (request: Request, schema: z.ZodTypeAny): Promise<unknown> => {
+  const contentType = request.headers.get('content-type') ?? '';
+
+  if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
+    return fromFormData(await request.formData(), schema);
+  }
+
+  const text = await request.text();
+  if (!contentType.includes('json') && !/^\s*[[{]/.test(text)) return text || undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new MaybeError('parse', 'The request body is not valid JSON', { cause: error });
+  }
+};
+
+const readRequest = async (request: RouteRequest, schemas: HandlerSchemas, params: Record<string, string>) => ({
+  ...(schemas.body ? { body: await readBody(request, schemas.body) } : {}),
+  ...(schemas.query ? { query: fromSearchParams(new URL(request.url).searchParams, schemas.query) } : {}),
+  ...(schemas.params ? { params } : {})
+});
+
+const toResponse = (result: unknown): Response => {
+  if (result instanceof Response) return result;
+  if (result === undefined) return new Response(null, { status: 204 });
+  return Response.json(result);
+};
+
+/**
+ * Creates a Fetch API handler (`Request` in, `Response` out) validating the body, query and route params of each
+ * request with AsyncMaybe before calling the processor. Failures answer with an `application/problem+json` response.
+ *
+ * @template S - The schemas of the validated parts of the request.
+ * @template U - The type returned by the processor: a `Response`, or a value sent as JSON.
+ * @param {S} schemas - The schemas of the `body`, `query` and `params` to validate.
+ * @param {function} fn - A function receiving the validated parts and the request.
+ * @param {HandlerOptions<U>} [options] - Optional settings, such as a timeout or the locale of the messages.
+ * @returns {function} - A handler taking a request (and its route params) and resolving to a response.
+ */
+export const createHandler = <S extends HandlerSchemas, U>(
+  schemas: S,
+  fn: (input: HandlerInput<S>, request: Request) => U | Promise<U>,
+  { timeout, locale, ...options }: HandlerOptions<U> = {}
+) => {
+  const schema = z.object(schemas as Record<string, z.ZodTypeAny>);
+
+  return async (request: RouteRequest, params: Record<string, string> = request.params ?? {}): Promise<Response> => {
+    const validate = AsyncMaybe((input: HandlerInput<S>) => fn(input, request), schema as z.ZodType<HandlerInput<S>>, options);
+    const [error, result] = await validate(readRequest(request, schemas, params), {
+      timeout,
+      signal: request.signal,
+      locale: typeof locale === 'function' ? locale(request) : locale
+    });
+
+    return error ? problemResponse(error) : toResponse(result);
+  };
+};
+
+const toRequest = async (req: IncomingMessage): Promise<Request> => {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    for (const item of [value ?? []].flat()) headers.append(name, item);
+  }
+
+  const chunks: Uint8Array[] = [];
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    for await (const chunk of req) chunks.push(chunk);
+  }
+
+  return new Request(new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`).href, {
+    method: req.method,
+    headers,
+    body: chunks.length ? Buffer.concat(chunks) : undefined
+  });
+};
+
+const answer = async (
+  req: IncomingMessage,
+  handler: (request: Request, params?: Record<string, string>) => Promise<Response>,
+  getParams: (req: IncomingMessage) => Record<string, string>
+): Promise<Response> => {
+  let request: Request;
+  try {
+    request = await toRequest(req);
+  } catch (error) {
+    return problemResponse(MaybeError.fromUnknown('input-rejected', error));
+  }
+
+  try {
+    return await handler(request, getParams(req));
+  } catch (error) {
+    return problemResponse(MaybeError.fromUnknown('processor-threw', error));
+  }
+};
+
+/**
+ * Adapts a Fetch API handler to a `node:http` request listener. Requests that cannot be read (an aborted upload, an
+ * invalid URL) answer a 400 problem, and handler failures a 500 one.
+ *
+ * @param {function} handler - A handler created by createHandler.
+ * @param {function} [getParams] - A function extracting the route params from the Node request.
+ * @returns {function} - A listener for `http.createServer`.
+ */
+export const toNodeListener = (
+  handler: (request: Request, params?: Record<string, string>) => Promise<Response>,
+  getParams: (req: IncomingMessage) => Record<string, string> = () => ({})
+) => async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  const response = await answer(req, handler, getParams);
+
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  res.end(Buffer.from(await response.arrayBuffer()));
+};
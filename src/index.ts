@@ -1,37 +1,102 @@
-import { z } from "zod";
-
-/**
- * A utility function that applies a given function to data validated by a Zod schema.
- *
- * @template T - The type of the input data.
- * @template U - The type of the output data after applying the function.
- * @param {function} fn - A function that takes validated data of type T and returns data of type U.
- * @param {z.ZodSchema<T>} schema - A Zod schema used to validate the input data.
- * @returns {[string | null, U | null]} - A array where the first element is an error message (if any) and the second element is the result of applying the function to the validated data, or null if validation fails.
- */
-export const Maybe = <T, U>(fn: (params: T) => U, schema: z.ZodSchema<T>) => (data: T): [string | null, U | null] => {
-  const result = schema.safeParse(data);
-
-  return result.success
-      ? [null, fn(result.data)]
-      : [result.error?.message , null];
-};
-
-/**
- * A utility function that asynchronously applies a given function to data validated by a Zod schema.
- *
- * @template T - The type of the input data.
- * @template U - The type of the output data after applying the function.
- * @param {function} fn - A function that takes validated data of type T and returns data of type U.
- * @param {z.ZodSchema<T>} schema - A Zod schema used to validate the input data.
- * @returns {Promise<[string | null, U | null]>} - A promise that resolves to a array where the first element is an error message (if any) and the second element is the result of applying the function to the validated data, or null if validation fails.
- */
-export const AsyncMaybe = <T, U>(fn: (params: T) => U, schema: z.ZodSchema<T>) => async (data: Promise<T>): Promise<[string | null, U | null]> => {
-  try {
-    const result = await schema.safeParseAsync(await data);
-
-    return result.success ? [null, fn(result.data)] : [result.error?.message , null];
-  } catch (error) {
-    return ['Unknown error', null];
-  }
-};
\ No newline at end of file
+export { Maybe, AsyncMaybe, type MaybeOptions, type MaybeCallOptions, type AsyncMaybeCallOptions } from "./maybe";
+export {
+  MaybeError,
+  withStringErrors,
+  formatPath,
+  type MaybeErrorKind,
+  type FieldErrors,
+  type MaybeTuple,
+  type LegacyMaybeTuple
+} from "./errors";
+export { pipe, type Pipeline } from "./pipeline";
+export {
+  batch,
+  asyncBatch,
+  type BatchEntry,
+  type BatchFailure,
+  type BatchSummary,
+  type BatchResult,
+  type BatchOptions,
+  type AsyncBatchOptions
+} from "./batch";
+export {
+  validateStream,
+  validateNdjson,
+  splitStream,
+  type StreamRecord,
+  type StreamTuple,
+  type StreamSinks
+} from "./stream";
+export { toResult, type MaybeResult, type OkResult, type ErrResult, type ResultMethods } from "./result";
+export { all, firstOk, type InputsOf, type ResultsOf, type FirstOk } from "./combinators";
+export { registerLocale, configureMessages, type MessageSettings } from "./messages";
+export { fr } from "./locales/fr";
+export { de } from "./locales/de";
+export {
+  createHandler,
+  toNodeListener,
+  problemResponse,
+  type HandlerSchemas,
+  type HandlerInput,
+  type HandlerOptions,
+  type Problem
+} from "./http";
+export { fromEntries, fromFormData, fromSearchParams, fromHeaders, type HeadersLike } from "./input";
+export {
+  createMetrics,
+  type TelemetryOptions,
+  type Durations,
+  type SuccessEvent,
+  type ErrorEvent,
+  type SettledEvent,
+  type Tracer,
+  type Span,
+  type MetricsCollector,
+  type ValidatorMetrics
+} from "./telemetry";
+export { sensitive, REDACTED } from "./redact";
+export { type LenientWarning } from "./lenient";
+export { toJsonSchema, type JsonSchema, type SchemaIO } from "./jsonSchema";
+export {
+  createRegistry,
+  type Registry,
+  type Route,
+  type ContractSpec,
+  type RegisteredOptions,
+  type OpenApiInfo
+} from "./registry";
+export { Validated, OverrideSchemas } from "./decorators";
+export { orElse, recover, withDefault, type Branch, type RecoveredResult, type RecoveryRules } from "./recovery";
+export {
+  createConsumer,
+  createMemoryTransport,
+  exponentialBackoff,
+  type Message,
+  type Transport,
+  type DeadLetterDetails,
+  type ConsumerOptions,
+  type ConsumeOutcome,
+  type MemoryTransport
+} from "./consumer";
+export { MaybeWithContext, AsyncMaybeWithContext, type ContextualSchema } from "./context";
+export {
+  procedure,
+  createRouter,
+  createRpcHandler,
+  serveWorker,
+  createClient,
+  httpLink,
+  workerLink,
+  serializeError,
+  deserializeError,
+  type Procedure,
+  type ProcedureTree,
+  type Router,
+  type Client,
+  type Link,
+  type RpcRequest,
+  type RpcResponse,
+  type RpcServerOptions,
+  type SerializedError,
+  type MessagePortLike
+} from "./rpc";
@@ -0,0 +1,229 @@
+import { z } from "zod";
+
+type Segment = string | number;
+
+/**
+ * A `Headers` instance, or a plain header map such as Node's `IncomingHttpHeaders`.
+ */
+export type HeadersLike = Headers | Record<string, string | string[] | undefined>;
+
+export type DecodeOptions = {
+  separator?: string;
+};
+
+const unsafeKeys = new Set(['__proto__', 'prototype', 'constructor']);
+
+const truthy = new Set(['true', 'on', '1', 'yes']);
+const falsy = new Set(['false', 'off', '0', 'no']);
+
+/**
+ * The largest array index a key may hold, as in `qs`. Larger indexes are kept as object keys, so that
+ * `items[50000000]` cannot allocate an array of that length.
+ */
+const arrayLimit = 20;
+
+/**
+ * Splits a form key into its path, e.g. `items[0].qty` becomes `['items', 0, 'qty']` and `tags[]` becomes
+ * `['tags', '']`, the empty segment meaning "append".
+ */
+const parseKey = (key: string): Segment[] =>
+  (key.match(/[^.[\]]+|\[\]/g) ?? [key]).map((segment) =>
+    segment === '[]' ? '' : /^\d+$/.test(segment) && Number(segment) <= arrayLimit ? Number(segment) : segment
+  );
+
+const isContainer = (value: unknown): value is Record<Segment, unknown> =>
+  typeof value === 'object' && value !== null && !(value instanceof Blob);
+
+/**
+ * Sets the value at the path. Entries that do not fit what earlier ones built are skipped: named keys on an array
+ * (including indexes above `arrayLimit`), and nested keys on a value (`a=1&a[b]=2`).
+ */
+const assign = (target: Record<Segment, unknown>, path: Segment[], value: unknown) => {
+  let node: Record<Segment, unknown> = target;
+
+  for (const [index, segment] of path.entries()) {
+    if (Array.isArray(node) && typeof segment === 'string' && segment !== '') return;
+
+    const key = segment === '' && Array.isArray(node) ? node.length : segment;
+    const next = path[index + 1];
+
+    if (next === undefined) {
+      const existing = node[key];
+      node[key] = existing === undefined ? value : [existing, value].flat();
+      return;
+    }
+
+    node[key] ??= typeof next === 'number' || next === '' ? [] : {};
+    const child = node[key];
+    if (!isContainer(child)) return;
+    node = child;
+  }
+};
+
+/**
+ * Strips the wrappers (optional, default, effects, ...) around a schema, returning the schema of the value itself.
+ *
+ * @param {z.ZodTypeAny} schema - The schema to unwrap.
+ * @returns {z.ZodTypeAny} - The innermost schema.
+ */
+export const unwrap = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodDefault || schema instanceof z.ZodCatch || schema instanceof z.ZodReadonly) {
+    return unwrap(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  if (schema instanceof z.ZodPipeline) return unwrap(schema._def.in);
+  if (schema instanceof z.ZodLazy) return unwrap(schema.schema);
+  if (schema instanceof z.ZodBranded) return unwrap(schema.unwrap());
+  return schema;
+};
+
+/**
+ * Whether a schema replaces a missing value, with `.default()` or `.catch()`.
+ *
+ * @param {z.ZodTypeAny} schema - The schema to inspect.
+ * @returns {boolean} - True when a default (or catch) value applies to `undefined`.
+ */
+export const hasDefault = (schema: z.ZodTypeAny): boolean => {
+  if (schema instanceof z.ZodDefault || schema instanceof z.ZodCatch) return true;
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodReadonly) return hasDefault(schema._def.innerType);
+  if (schema instanceof z.ZodEffects) return hasDefault(schema.innerType());
+  return false;
+};
+
+const coerceScalar = (value: string, schema: z.ZodTypeAny): unknown => {
+  if (schema instanceof z.ZodNumber) return value.trim() === '' ? undefined : Number(value);
+  if (schema instanceof z.ZodBigInt) return /^-?\d+$/.test(value.trim()) ? BigInt(value.trim()) : value;
+  if (schema instanceof z.ZodDate) return value.trim() === '' ? undefined : new Date(value);
+  if (schema instanceof z.ZodBoolean) {
+    const normalized = value.trim().toLowerCase();
+    return truthy.has(normalized) ? true : falsy.has(normalized) ? false : normalized === '' ? undefined : value;
+  }
+  if (schema instanceof z.ZodLiteral && typeof schema.value !== 'string') return coerceScalar(value, literalType(schema.value));
+  if (schema instanceof z.ZodNull) return value === '' ? null : value;
+  return value;
+};
+
+const literalType = (value: unknown): z.ZodTypeAny =>
+  typeof value === 'number' ? z.number() : typeof value === 'boolean' ? z.boolean() : typeof value === 'bigint' ? z.bigint() : z.any();
+
+// Schemas with async refinements cannot be checked synchronously, and are skipped.
+const accepts = (schema: z.ZodTypeAny, value: unknown): boolean => {
+  try {
+    return schema.safeParse(value).success;
+  } catch {
+    return false;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Blob);
+
+/**
+ * Converts the strings found in a decoded value to the numbers, booleans, dates and arrays the schema expects.
+ *
+ * @param {unknown} value - The decoded value.
+ * @param {z.ZodTypeAny} schema - The schema the value will be validated with.
+ * @param {DecodeOptions} options - The separator splitting strings where the schema expects an array.
+ * @returns {unknown} - The converted value. Values the schema does not describe are left as they are.
+ */
+export const coerce = (value: unknown, schema: z.ZodTypeAny, options: DecodeOptions): unknown => {
+  const inner = unwrap(schema);
+
+  if (inner instanceof z.ZodArray || inner instanceof z.ZodSet) {
+    if (value === undefined) return value;
+    const items = Array.isArray(value)
+      ? value
+      : typeof value === 'string' && options.separator
+        ? value.split(options.separator).map((item) => item.trim())
+        : [value];
+    const element = inner instanceof z.ZodArray ? inner.element : inner._def.valueType;
+    return items.map((item) => coerce(item, element, options));
+  }
+  if (inner instanceof z.ZodTuple && Array.isArray(value)) {
+    return value.map((item, index) => coerce(item, inner.items[index] ?? inner._def.rest ?? z.any(), options));
+  }
+  if (inner instanceof z.ZodObject && isRecord(value)) {
+    const shape: Record<string, z.ZodTypeAny> = inner.shape;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, shape[key] ? coerce(item, shape[key], options) : item])
+    );
+  }
+  if (inner instanceof z.ZodRecord && isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, coerce(item, inner.valueSchema, options)]));
+  }
+  if (inner instanceof z.ZodDiscriminatedUnion && isRecord(value)) {
+    const tag = value[inner.discriminator];
+    // Form values are strings, so `'2'` selects the option tagged with the literal `2`.
+    const option = [...inner.optionsMap].find(([key]) => String(key) === String(tag))?.[1];
+    return option ? coerce(value, option, options) : value;
+  }
+  if (inner instanceof z.ZodUnion) {
+    // Like Zod, the first option accepting its converted value wins, e.g. `'42'` is a number for `number | string`.
+    for (const option of inner.options as z.ZodTypeAny[]) {
+      const converted = coerce(value, option, options);
+      if (accepts(option, converted)) return converted;
+    }
+    return value;
+  }
+  if (typeof value === 'string') return coerceScalar(value, inner);
+
+  return value;
+};
+
+/**
+ * Builds the object a schema expects from key/value entries, such as those of a form or a query string.
+ * Nested keys (`address[city]`, `items[0].qty`, `tags[]`) become nested objects and arrays, repeated keys become
+ * arrays, and strings are converted to the numbers, booleans and dates the schema expects. `File` entries are kept.
+ *
+ * @param {Iterable<[string, unknown]>} entries - The key/value pairs.
+ * @param {z.ZodTypeAny} schema - The schema the object will be validated with.
+ * @returns {unknown} - The decoded object, ready to be given to a validator.
+ */
+export const fromEntries = (entries: Iterable<[string, unknown]>, schema: z.ZodTypeAny): unknown => {
+  const target: Record<Segment, unknown> = {};
+
+  for (const [key, value] of entries) {
+    const path = parseKey(key);
+    if (path.some((segment) => typeof segment === 'string' && unsafeKeys.has(segment))) continue;
+    assign(target, path, value);
+  }
+
+  return coerce(target, schema, {});
+};
+
+/**
+ * Decodes `FormData` into the object a schema expects. See `fromEntries`.
+ *
+ * @param {FormData} formData - The submitted form.
+ * @param {z.ZodTypeAny} schema - The schema the object will be validated with.
+ * @returns {unknown} - The decoded object.
+ */
+export const fromFormData = (formData: FormData, schema: z.ZodTypeAny): unknown => fromEntries(formData.entries(), schema);
+
+/**
+ * Decodes `URLSearchParams` (or a query string) into the object a schema expects. See `fromEntries`.
+ *
+ * @param {URLSearchParams | string} params - The query parameters.
+ * @param {z.ZodTypeAny} schema - The schema the object will be validated with.
+ * @returns {unknown} - The decoded object.
+ */
+export const fromSearchParams = (params: URLSearchParams | string, schema: z.ZodTypeAny): unknown =>
+  fromEntries(new URLSearchParams(params).entries(), schema);
+
+/**
+ * Decodes request headers into the object a schema expects. Header names are lower-cased, and comma-separated values
+ * are split when the schema expects an array. See `fromEntries`.
+ *
+ * @param {HeadersLike} headers - A `Headers` instance or a plain header map.
+ * @param {z.ZodTypeAny} schema - The schema the object will be validated with.
+ * @returns {unknown} - The decoded object.
+ */
+export const fromHeaders = (headers: HeadersLike, schema: z.ZodTypeAny): unknown => {
+  const entries = headers instanceof Headers ? [...headers.entries()] : Object.entries(headers);
+  const decoded = entries
+    .filter((entry): entry is [string, string | string[]] => entry[1] !== undefined)
+    .map(([name, value]): [string, unknown] => [name.toLowerCase(), Array.isArray(value) ? value.join(', ') : value]);
+
+  return coerce(Object.fromEntries(decoded), schema, { separator: ',' });
+};
@@ -0,0 +1,157 @@
+import { z } from "zod";
+import { hasDefault } from "./input";
+
+/**
+ * A JSON Schema (draft 2020-12) document, as used by OpenAPI 3.1.
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * Whether to describe what a schema accepts (`input`, the default) or what it produces after defaults and
+ * transforms (`output`).
+ */
+export type SchemaIO = 'input' | 'output';
+
+const stringFormats: Partial<Record<string, string>> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  cuid: 'cuid',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  duration: 'duration',
+  emoji: 'emoji'
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const withDescription = (schema: z.ZodTypeAny, json: JsonSchema): JsonSchema =>
+  schema.description ? { ...json, description: schema.description } : json;
+
+const isOptional = (schema: z.ZodTypeAny, io: SchemaIO) => schema.isOptional() && (io === 'input' || !hasDefault(schema));
+
+const convertString = (schema: z.ZodString): JsonSchema => {
+  const json: JsonSchema = { type: 'string' };
+  const patterns: string[] = [];
+
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') json.minLength = check.value;
+    else if (check.kind === 'max') json.maxLength = check.value;
+    else if (check.kind === 'length') json.minLength = json.maxLength = check.value;
+    else if (check.kind === 'regex') patterns.push(check.regex.source);
+    else if (check.kind === 'startsWith') patterns.push(`^${escapeRegExp(check.value)}`);
+    else if (check.kind === 'endsWith') patterns.push(`${escapeRegExp(check.value)}$`);
+    else if (check.kind === 'ip') {
+      if (check.version) json.format = `ip${check.version}`;
+      else json.anyOf = [{ format: 'ipv4' }, { format: 'ipv6' }];
+    } else if (stringFormats[check.kind]) json.format = stringFormats[check.kind];
+  }
+
+  // A schema has a single `pattern`, so several must all match.
+  if (patterns.length === 1) json.pattern = patterns[0];
+  else if (patterns.length > 1) json.allOf = patterns.map((pattern) => ({ pattern }));
+
+  return json;
+};
+
+const convertNumber = (schema: z.ZodNumber): JsonSchema => {
+  const json: JsonSchema = { type: 'number' };
+
+  for (const check of schema._def.checks) {
+    if (check.kind === 'int') json.type = 'integer';
+    else if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+    else if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    else if (check.kind === 'multipleOf') json.multipleOf = check.value;
+  }
+
+  return json;
+};
+
+const convertObject = (schema: z.ZodObject<z.ZodRawShape>, io: SchemaIO, seen: Set<z.ZodTypeAny>): JsonSchema => {
+  const shape = schema.shape as Record<string, z.ZodTypeAny>;
+  const required = Object.keys(shape).filter((key) => !isOptional(shape[key]!, io));
+  const { catchall, unknownKeys } = schema._def;
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, convert(value, io, seen)])),
+    ...(required.length ? { required } : {}),
+    ...(!(catchall instanceof z.ZodNever)
+      ? { additionalProperties: convert(catchall, io, seen) }
+      : unknownKeys === 'strict' || (unknownKeys === 'strip' && io === 'output')
+        ? { additionalProperties: false }
+        : {})
+  };
+};
+
+const convert = (schema: z.ZodTypeAny, io: SchemaIO, seen: Set<z.ZodTypeAny>): JsonSchema => {
+  if (seen.has(schema)) return {};
+  const walk = (inner: z.ZodTypeAny) => convert(inner, io, new Set(seen).add(schema));
+
+  return withDescription(schema, ((): JsonSchema => {
+    if (schema instanceof z.ZodString) return convertString(schema);
+    if (schema instanceof z.ZodNumber) return convertNumber(schema);
+    if (schema instanceof z.ZodBigInt) return { type: 'integer', format: 'int64' };
+    if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+    if (schema instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+    if (schema instanceof z.ZodNull) return { type: 'null' };
+    if (schema instanceof z.ZodLiteral) return { const: schema.value };
+    if (schema instanceof z.ZodEnum) return { type: 'string', enum: schema.options };
+    if (schema instanceof z.ZodNativeEnum) {
+      const values = Object.entries(schema.enum as Record<string, string | number>)
+        .filter(([key]) => !/^\d+$/.test(key))
+        .map(([, value]) => value);
+      return { enum: values };
+    }
+    if (schema instanceof z.ZodNever) return { not: {} };
+    if (schema instanceof z.ZodObject) return convertObject(schema, io, new Set(seen).add(schema));
+    if (schema instanceof z.ZodArray) {
+      const { minLength, maxLength, exactLength } = schema._def;
+      return {
+        type: 'array',
+        items: walk(schema.element),
+        ...(minLength || exactLength ? { minItems: (exactLength ?? minLength)!.value } : {}),
+        ...(maxLength || exactLength ? { maxItems: (exactLength ?? maxLength)!.value } : {})
+      };
+    }
+    if (schema instanceof z.ZodSet) return { type: 'array', uniqueItems: true, items: walk(schema._def.valueType) };
+    if (schema instanceof z.ZodTuple) {
+      return {
+        type: 'array',
+        prefixItems: schema.items.map(walk),
+        ...(schema._def.rest ? { items: walk(schema._def.rest) } : { items: false, minItems: schema.items.length })
+      };
+    }
+    if (schema instanceof z.ZodRecord) return { type: 'object', additionalProperties: walk(schema.valueSchema) };
+    if (schema instanceof z.ZodUnion) return { anyOf: schema.options.map(walk) };
+    if (schema instanceof z.ZodDiscriminatedUnion) return { oneOf: schema.options.map(walk) };
+    if (schema instanceof z.ZodIntersection) return { allOf: [walk(schema._def.left), walk(schema._def.right)] };
+    if (schema instanceof z.ZodOptional) return walk(schema.unwrap());
+    if (schema instanceof z.ZodNullable) return { anyOf: [walk(schema.unwrap()), { type: 'null' }] };
+    if (schema instanceof z.ZodDefault) {
+      return io === 'input' ? { ...walk(schema._def.innerType), default: schema._def.defaultValue() } : walk(schema._def.innerType);
+    }
+    if (schema instanceof z.ZodCatch) return walk(schema._def.innerType);
+    if (schema instanceof z.ZodBranded || schema instanceof z.ZodPromise) return walk(schema.unwrap());
+    if (schema instanceof z.ZodReadonly) return { ...walk(schema._def.innerType), readOnly: true };
+    if (schema instanceof z.ZodLazy) return walk(schema.schema);
+    if (schema instanceof z.ZodPipeline) return walk(io === 'input' ? schema._def.in : schema._def.out);
+    if (schema instanceof z.ZodEffects) {
+      // The output of a transform is only known at runtime.
+      return io === 'output' && schema._def.effect.type === 'transform' ? {} : walk(schema.innerType());
+    }
+
+    return {};
+  })());
+};
+
+/**
+ * Converts a Zod schema to a JSON Schema (draft 2020-12), as embedded in OpenAPI 3.1 documents.
+ * Refinements cannot be expressed and are left out; the result of a transform is described as any value.
+ *
+ * @param {z.ZodTypeAny} schema - The schema to convert.
+ * @param {SchemaIO} [io] - Whether to describe the accepted input (default) or the produced output.
+ * @returns {JsonSchema} - The JSON Schema.
+ */
+export const toJsonSchema = (schema: z.ZodTypeAny, io: SchemaIO = 'input'): JsonSchema => convert(schema, io, new Set());
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { formatPath, type MaybeTuple } from "./errors";
+import { hasDefault, unwrap } from "./input";
+import { then } from "./settle";
+
+/**
+ * A field lenient mode removed from the input so the rest of it could be validated.
+ *
+ * - `dropped`: the optional field was removed.
+ * - `defaulted`: the field was removed so its schema default applies.
+ *
+ * @property {string} path - The dotted path of the field.
+ * @property {z.ZodIssue[]} issues - The issues that made the field fail.
+ */
+export type LenientWarning = {
+  path: string;
+  action: 'dropped' | 'defaulted';
+  issues: z.ZodIssue[];
+};
+
+type Segment = string | number;
+
+export type Salvaged<V> = [tuple: MaybeTuple<V>, warnings: LenientWarning[]];
+
+const childSchema = (schema: z.ZodTypeAny, segment: Segment): z.ZodTypeAny | undefined => {
+  const inner = unwrap(schema);
+
+  if (inner instanceof z.ZodObject) return inner.shape[segment];
+  if (inner instanceof z.ZodArray) return inner.element;
+  if (inner instanceof z.ZodRecord) return inner.valueSchema;
+  if (inner instanceof z.ZodTuple) return inner.items[Number(segment)] ?? inner._def.rest ?? undefined;
+  return undefined;
+};
+
+/**
+ * Whether a field may be left out, read from the schema: `isOptional()` parses `undefined`, which runs refinements.
+ */
+const isOptional = (schema: z.ZodTypeAny): boolean => {
+  if (schema instanceof z.ZodOptional || hasDefault(schema)) return true;
+  if (schema instanceof z.ZodUndefined || schema instanceof z.ZodVoid || schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) return true;
+  if (schema instanceof z.ZodUnion) return (schema.options as z.ZodTypeAny[]).some(isOptional);
+  const inner = unwrap(schema);
+  return inner !== schema && isOptional(inner);
+};
+
+/**
+ * Finds the deepest object field along the issue path that may be left out: an optional field, or one with a default.
+ */
+const removableField = (schema: z.ZodTypeAny, path: Segment[]): { path: Segment[]; schema: z.ZodTypeAny } | undefined => {
+  let parent: z.ZodTypeAny | undefined = schema;
+  let found: { path: Segment[]; schema: z.ZodTypeAny } | undefined;
+
+  for (const [index, segment] of path.entries()) {
+    const field: z.ZodTypeAny | undefined = parent && childSchema(parent, segment);
+    if (!field) break;
+    if (unwrap(parent!) instanceof z.ZodObject && isOptional(field)) found = { path: path.slice(0, index + 1), schema: field };
+    parent = field;
+  }
+
+  return found;
+};
+
+const without = (data: unknown, [head, ...rest]: Segment[]): unknown => {
+  if (data === null || typeof data !== 'object' || head === undefined) return data;
+
+  const copy = (Array.isArray(data) ? [...data] : { ...data }) as Record<Segment, unknown>;
+  if (rest.length) copy[head] = without(copy[head], rest);
+  else delete copy[head];
+  return copy;
+};
+
+/**
+ * Parses the data, removing the optional fields that fail and parsing again until only required fields fail.
+ *
+ * @template V - The type of the parsed data.
+ * @param {z.ZodTypeAny} schema - The schema the data is parsed with.
+ * @param {unknown} data - The data to parse.
+ * @param {function} parse - Parses the data with the schema, synchronously or not.
+ * @returns {Salvaged<V> | Promise<Salvaged<V>>} - The final parse result and the warnings for the removed fields.
+ */
+export const parseLeniently = <V>(
+  schema: z.ZodTypeAny,
+  data: unknown,
+  parse: (data: unknown) => MaybeTuple<V> | Promise<MaybeTuple<V>>
+): Salvaged<V> | Promise<Salvaged<V>> => {
+  const attempt = (current: unknown, warnings: LenientWarning[]): Salvaged<V> | Promise<Salvaged<V>> =>
+    then(parse(current), (tuple): Salvaged<V> | Promise<Salvaged<V>> => {
+      const [error] = tuple;
+      if (!error) return [tuple, warnings];
+
+      const removed = new Map<string, LenientWarning & { segments: Segment[] }>();
+      for (const issue of error.issues) {
+        const field = removableField(schema, issue.path);
+        if (!field) return [tuple, warnings];
+
+        const path = formatPath(field.path);
+        if (warnings.some((warning) => warning.path === path)) return [tuple, warnings];
+
+        // Decided from the schema: parsing `undefined` would run its (possibly async) refinements.
+        const action = hasDefault(field.schema) ? 'defaulted' : 'dropped';
+        if (!removed.has(path)) removed.set(path, { path, action, issues: [], segments: field.path });
+        removed.get(path)!.issues.push(issue);
+      }
+
+      // Failures without issues (a throwing transform, an async refinement in a sync parse) remove nothing.
+      const fields = [...removed.values()];
+      if (!fields.length) return [tuple, warnings];
+
+      return attempt(
+        fields.reduce((salvaged, { segments }) => without(salvaged, segments), current),
+        [...warnings, ...fields.map(({ segments, ...warning }) => warning)]
+      );
+    });
+
+  return attempt(data, []);
+};
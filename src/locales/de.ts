@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { formatDate, joinValues } from "./format";
+
+/**
+ * German messages for the Zod issue codes.
+ */
+export const de: z.ZodErrorMap = (issue, ctx) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return {
+        message: issue.received === 'undefined' ? 'Erforderlich' : `Erwartet: ${issue.expected}, erhalten: ${issue.received}`
+      };
+    case z.ZodIssueCode.invalid_literal:
+      return { message: `Ungültiger Literalwert, erwartet: ${JSON.stringify(issue.expected)}` };
+    case z.ZodIssueCode.unrecognized_keys:
+      return { message: `Unbekannte Schlüssel im Objekt: ${joinValues(issue.keys)}` };
+    case z.ZodIssueCode.invalid_union:
+      return { message: 'Ungültige Eingabe' };
+    case z.ZodIssueCode.invalid_union_discriminator:
+      return { message: `Ungültiger Diskriminatorwert. Erwartet: ${joinValues(issue.options)}` };
+    case z.ZodIssueCode.invalid_enum_value:
+      return { message: `Ungültiger Wert. Erwartet: ${joinValues(issue.options)}, erhalten: '${issue.received}'` };
+    case z.ZodIssueCode.invalid_date:
+      return { message: 'Ungültiges Datum' };
+    case z.ZodIssueCode.invalid_string:
+      if (issue.validation === 'email') return { message: 'Ungültige E-Mail-Adresse' };
+      if (issue.validation === 'url') return { message: 'Ungültige URL' };
+      if (issue.validation === 'uuid') return { message: 'Ungültige UUID' };
+      if (issue.validation === 'regex') return { message: 'Ungültiges Format' };
+      if (typeof issue.validation === 'object') {
+        if ('includes' in issue.validation) return { message: `Muss "${issue.validation.includes}" enthalten` };
+        if ('startsWith' in issue.validation) return { message: `Muss mit "${issue.validation.startsWith}" beginnen` };
+        return { message: `Muss mit "${issue.validation.endsWith}" enden` };
+      }
+      return { message: `Ungültiger Wert (${issue.validation})` };
+    case z.ZodIssueCode.too_small: {
+      const bound = issue.exact ? 'genau' : issue.inclusive ? 'mindestens' : 'mehr als';
+      const comparison = issue.exact ? 'gleich' : issue.inclusive ? 'größer oder gleich' : 'größer als';
+      if (issue.type === 'string') return { message: `Muss ${bound} ${issue.minimum} Zeichen enthalten` };
+      if (issue.type === 'array' || issue.type === 'set') return { message: `Muss ${bound} ${issue.minimum} Element(e) enthalten` };
+      if (issue.type === 'number' || issue.type === 'bigint') return { message: `Die Zahl muss ${comparison} ${issue.minimum} sein` };
+      if (issue.type === 'date') {
+        const date = issue.exact ? 'der' : issue.inclusive ? 'am oder nach dem' : 'nach dem';
+        return { message: `Das Datum muss ${date} ${formatDate(issue.minimum, 'de')} sein` };
+      }
+      return { message: 'Ungültige Eingabe' };
+    }
+    case z.ZodIssueCode.too_big: {
+      const bound = issue.exact ? 'genau' : issue.inclusive ? 'höchstens' : 'weniger als';
+      const comparison = issue.exact ? 'gleich' : issue.inclusive ? 'kleiner oder gleich' : 'kleiner als';
+      if (issue.type === 'string') return { message: `Darf ${bound} ${issue.maximum} Zeichen enthalten` };
+      if (issue.type === 'array' || issue.type === 'set') return { message: `Darf ${bound} ${issue.maximum} Element(e) enthalten` };
+      if (issue.type === 'number' || issue.type === 'bigint') return { message: `Die Zahl muss ${comparison} ${issue.maximum} sein` };
+      if (issue.type === 'date') {
+        const date = issue.exact ? 'der' : issue.inclusive ? 'am oder vor dem' : 'vor dem';
+        return { message: `Das Datum muss ${date} ${formatDate(issue.maximum, 'de')} sein` };
+      }
+      return { message: 'Ungültige Eingabe' };
+    }
+    case z.ZodIssueCode.custom:
+      return { message: 'Ungültige Eingabe' };
+    case z.ZodIssueCode.not_multiple_of:
+      return { message: `Die Zahl muss ein Vielfaches von ${issue.multipleOf} sein` };
+    case z.ZodIssueCode.not_finite:
+      return { message: 'Die Zahl muss endlich sein' };
+    default:
+      return { message: ctx.defaultError };
+  }
+};
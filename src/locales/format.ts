@@ -0,0 +1,10 @@
+/**
+ * Formats the expected values of an issue the way Zod does, e.g. `'light' | 'dark'`.
+ */
+export const joinValues = (values: readonly unknown[]): string =>
+  values.map((value) => (typeof value === 'string' ? `'${value}'` : String(value))).join(' | ');
+
+/**
+ * Formats the bound of a date issue in the given locale.
+ */
+export const formatDate = (value: number | bigint, locale: string): string => new Date(Number(value)).toLocaleDateString(locale);
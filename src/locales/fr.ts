@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { formatDate, joinValues } from "./format";
+
+/**
+ * French messages for the Zod issue codes.
+ */
+export const fr: z.ZodErrorMap = (issue, ctx) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return {
+        message: issue.received === 'undefined' ? 'Obligatoire' : `Type attendu : ${issue.expected}, reçu : ${issue.received}`
+      };
+    case z.ZodIssueCode.invalid_literal:
+      return { message: `Valeur littérale invalide, attendu : ${JSON.stringify(issue.expected)}` };
+    case z.ZodIssueCode.unrecognized_keys:
+      return { message: `Clé(s) non reconnue(s) dans l'objet : ${joinValues(issue.keys)}` };
+    case z.ZodIssueCode.invalid_union:
+      return { message: 'Entrée invalide' };
+    case z.ZodIssueCode.invalid_union_discriminator:
+      return { message: `Valeur de discriminant invalide. Attendu : ${joinValues(issue.options)}` };
+    case z.ZodIssueCode.invalid_enum_value:
+      return { message: `Valeur invalide. Attendu : ${joinValues(issue.options)}, reçu : '${issue.received}'` };
+    case z.ZodIssueCode.invalid_date:
+      return { message: 'Date invalide' };
+    case z.ZodIssueCode.invalid_string:
+      if (issue.validation === 'email') return { message: 'Adresse e-mail invalide' };
+      if (issue.validation === 'url') return { message: 'URL invalide' };
+      if (issue.validation === 'uuid') return { message: 'UUID invalide' };
+      if (issue.validation === 'regex') return { message: 'Format invalide' };
+      if (typeof issue.validation === 'object') {
+        if ('includes' in issue.validation) return { message: `Doit contenir "${issue.validation.includes}"` };
+        if ('startsWith' in issue.validation) return { message: `Doit commencer par "${issue.validation.startsWith}"` };
+        return { message: `Doit se terminer par "${issue.validation.endsWith}"` };
+      }
+      return { message: `${issue.validation} invalide` };
+    case z.ZodIssueCode.too_small: {
+      const bound = issue.exact ? 'exactement' : issue.inclusive ? 'au moins' : 'plus de';
+      const comparison = issue.exact ? 'égal à' : issue.inclusive ? 'supérieur ou égal à' : 'supérieur à';
+      if (issue.type === 'string') return { message: `Doit contenir ${bound} ${issue.minimum} caractère(s)` };
+      if (issue.type === 'array' || issue.type === 'set') return { message: `Doit contenir ${bound} ${issue.minimum} élément(s)` };
+      if (issue.type === 'number' || issue.type === 'bigint') return { message: `Le nombre doit être ${comparison} ${issue.minimum}` };
+      if (issue.type === 'date') {
+        const date = issue.exact ? 'le' : issue.inclusive ? 'le ou après le' : 'après le';
+        return { message: `La date doit être ${date} ${formatDate(issue.minimum, 'fr')}` };
+      }
+      return { message: 'Entrée invalide' };
+    }
+    case z.ZodIssueCode.too_big: {
+      const bound = issue.exact ? 'exactement' : issue.inclusive ? 'au plus' : 'moins de';
+      const comparison = issue.exact ? 'égal à' : issue.inclusive ? 'inférieur ou égal à' : 'inférieur à';
+      if (issue.type === 'string') return { message: `Doit contenir ${bound} ${issue.maximum} caractère(s)` };
+      if (issue.type === 'array' || issue.type === 'set') return { message: `Doit contenir ${bound} ${issue.maximum} élément(s)` };
+      if (issue.type === 'number' || issue.type === 'bigint') return { message: `Le nombre doit être ${comparison} ${issue.maximum}` };
+      if (issue.type === 'date') {
+        const date = issue.exact ? 'le' : issue.inclusive ? 'le ou avant le' : 'avant le';
+        return { message: `La date doit être ${date} ${formatDate(issue.maximum, 'fr')}` };
+      }
+      return { message: 'Entrée invalide' };
+    }
+    case z.ZodIssueCode.custom:
+      return { message: 'Entrée invalide' };
+    case z.ZodIssueCode.not_multiple_of:
+      return { message: `Le nombre doit être un multiple de ${issue.multipleOf}` };
+    case z.ZodIssueCode.not_finite:
+      return { message: 'Le nombre doit être fini' };
+    default:
+      return { message: ctx.defaultError };
+  }
+};
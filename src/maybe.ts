@@ -0,0 +1,238 @@
+import { z } from "zod";
+import { MaybeError, type MaybeErrorKind, type MaybeTuple } from "./errors";
+import { resolveErrorMap } from "./messages";
+import { parseLeniently, type LenientWarning, type Salvaged } from "./lenient";
+import { createRedactor } from "./redact";
+import { toResult, type MaybeResult } from "./result";
+import { then } from "./settle";
+import { startCall, type TelemetryOptions } from "./telemetry";
+
+/**
+ * Options shared by Maybe and AsyncMaybe.
+ *
+ * @template U - The type of the output data.
+ * @property {z.ZodSchema<U>} [output] - A Zod schema the processor's return value is parsed with before it is returned.
+ * @property {z.ZodErrorMap} [errorMap] - An error map for this validator. It receives the locale's message as `ctx.defaultError`.
+ * @property {string} [locale] - The locale of this validator's messages, unless another one is given per call.
+ * @property {boolean} [lenient] - Drops the optional fields that fail (or lets their default apply) instead of rejecting the input. The removed fields are listed in the result's `warnings`.
+ * @property {string[]} [redact] - Dotted paths (`*` matching any index or key) whose values are masked in errors and hook payloads, in addition to the schemas marked with `sensitive`.
+ * @see TelemetryOptions for the `name`, `onSuccess`, `onError`, `onSettled` and `tracer` options.
+ */
+export type MaybeOptions<U> = TelemetryOptions<U> & {
+  output?: z.ZodSchema<U>;
+  errorMap?: z.ZodErrorMap;
+  locale?: string;
+  lenient?: boolean;
+  redact?: string[];
+};
+
+/**
+ * Per-call options accepted by the function returned from Maybe.
+ *
+ * @property {string} [locale] - The locale of the error messages for this call.
+ * @property {boolean} [lenient] - Overrides the validator's `lenient` option for this call.
+ * @property {string[]} [redact] - Dotted paths masked for this call, in addition to the validator's own.
+ */
+export type MaybeCallOptions = {
+  locale?: string;
+  lenient?: boolean;
+  redact?: string[];
+};
+
+/**
+ * Per-call options accepted by the function returned from AsyncMaybe.
+ *
+ * @property {number} [timeout] - Milliseconds after which the call resolves with a `timeout` error.
+ * @property {AbortSignal} [signal] - A signal that resolves the call with an `aborted` error when it fires.
+ */
+export type AsyncMaybeCallOptions = MaybeCallOptions & {
+  timeout?: number;
+  signal?: AbortSignal;
+};
+
+const capture = <V>(kind: MaybeErrorKind, fn: () => V): MaybeTuple<V> => {
+  try {
+    return [null, fn()];
+  } catch (error) {
+    return [MaybeError.fromUnknown(kind, error), null];
+  }
+};
+
+const captureAsync = async <V>(kind: MaybeErrorKind, fn: () => V | PromiseLike<V>): Promise<MaybeTuple<V>> => {
+  try {
+    return [null, await fn()];
+  } catch (error) {
+    return [MaybeError.fromUnknown(kind, error), null];
+  }
+};
+
+const fromParse = <V>(result: z.SafeParseReturnType<unknown, V>, kind: MaybeErrorKind): MaybeTuple<V> =>
+  result.success ? [null, result.data] : [MaybeError.fromZodError(result.error, kind), null];
+
+const parseWith = <V>(schema: z.ZodType<V, z.ZodTypeDef, unknown>, data: unknown, kind: MaybeErrorKind, errorMap?: z.ZodErrorMap): MaybeTuple<V> => {
+  const [error, result] = capture(kind, () => schema.safeParse(data, { errorMap }));
+  return error ? [error, null] : fromParse(result, kind);
+};
+
+const parseWithAsync = async <V>(schema: z.ZodType<V, z.ZodTypeDef, unknown>, data: unknown, kind: MaybeErrorKind, errorMap?: z.ZodErrorMap): Promise<MaybeTuple<V>> => {
+  const [error, result] = await captureAsync(kind, () => schema.safeParseAsync(data, { errorMap }));
+  return error ? [error, null] : fromParse(result, kind);
+};
+
+const createRedactors = (schema: z.ZodTypeAny, output: z.ZodTypeAny | undefined, paths?: string[]) => ({
+  inputRedactor: createRedactor(schema, paths),
+  outputRedactor: createRedactor(output, paths)
+});
+
+// The schemas are only walked again when the call masks paths of its own.
+const redactorsFor = <U>(redactors: ReturnType<typeof createRedactors>, schema: z.ZodTypeAny, options: MaybeOptions<U>, callOptions: MaybeCallOptions) =>
+  callOptions.redact?.length ? createRedactors(schema, options.output, [...(options.redact ?? []), ...callOptions.redact]) : redactors;
+
+const parseInput = <V>(schema: z.ZodTypeAny, data: unknown, lenient: boolean | undefined, parse: (data: unknown) => MaybeTuple<V> | Promise<MaybeTuple<V>>) =>
+  lenient ? parseLeniently(schema, data, parse) : then(parse(data), (tuple): Salvaged<V> => [tuple, []]);
+
+export const isThenable = (value: unknown): value is PromiseLike<unknown> => typeof (value as PromiseLike<unknown> | null)?.then === 'function';
+
+/**
+ * The steps of Maybe, built once for a schema, with the processor given on each call. Used where the processor
+ * changes between calls, such as decorated methods bound to `this`.
+ *
+ * @param {S} schema - The schema of the input.
+ * @param {MaybeOptions<U>} [options] - The validator options.
+ * @param {object} [runnerOptions] - With `awaitProcessor`, a processor returning a promise is awaited, and the call
+ * resolves with the result.
+ * @returns {function} - A function taking the processor, the data and the per-call options.
+ */
+export const createMaybeRunner = <S extends z.ZodTypeAny, U>(schema: S, options: MaybeOptions<U> = {}, { awaitProcessor = false } = {}) => {
+  const redactors = createRedactors(schema, options.output, options.redact);
+
+  return (fn: (params: z.output<S>) => U, data: unknown, callOptions: MaybeCallOptions = {}): MaybeResult<U> | Promise<MaybeResult<Awaited<U>>> => {
+    const { inputRedactor, outputRedactor } = redactorsFor(redactors, schema, options, callOptions);
+    const call = startCall(options, inputRedactor.value(data), outputRedactor.value);
+    const errorMap = resolveErrorMap({ locale: callOptions.locale ?? options.locale, errorMap: options.errorMap });
+
+    const [[inputError, input], salvaged] = call.step('validation', () =>
+      parseInput(schema, data, callOptions.lenient ?? options.lenient, (current) => parseWith(schema, current, 'validation', errorMap)) as Salvaged<z.output<S>>
+    );
+    const warnings = salvaged.map((warning) => ({ ...warning, issues: inputRedactor.issues(warning.issues, data) }));
+    if (inputError) return call.settle(toResult<U>([inputRedactor.error(inputError, data), null], warnings));
+
+    const finish = ([processorError, value]: MaybeTuple<U>): MaybeResult<U> => {
+      if (processorError) return call.settle(toResult<U>([processorError, null], warnings));
+
+      const { output } = options;
+      if (!output) return call.settle(toResult([null, value], warnings));
+
+      const [outputError, result] = call.step('output', () => parseWith(output, value, 'output-validation', errorMap));
+      return call.settle(toResult(outputError ? [outputRedactor.error(outputError, value), null] : [null, result], warnings));
+    };
+
+    const processed = call.step('processor', () => capture('processor-threw', () => fn(input)));
+    const [, pending] = processed;
+    if (!awaitProcessor || !isThenable(pending)) return finish(processed);
+
+    return call.stepAsync('processor', () => captureAsync('processor-threw', () => pending)).then((tuple) =>
+      finish(tuple as MaybeTuple<U>)
+    ) as Promise<MaybeResult<Awaited<U>>>;
+  };
+};
+
+/**
+ * A utility function that applies a given function to data validated by a Zod schema.
+ *
+ * @template S - The Zod schema; the function receives its output type `z.output<S>`.
+ * @template U - The type of the output data after applying the function.
+ * @param {function} fn - A function that takes the parsed data of type `z.output<S>` and returns data of type U.
+ * @param {S} schema - A Zod schema used to validate the input data. Transforms, defaults and coercions are applied before calling the function.
+ * @param {MaybeOptions<U>} [options] - Optional settings, such as an output schema or an error map.
+ * @returns {MaybeResult<U>} - A function taking the data and an optional per-call `locale`, and returning a array where the first element is a MaybeError (if any) and the second element is the result of applying the function to the validated data, or null if validation fails. Exceptions thrown by the function are returned as a `processor-threw` error. The array also has result methods such as `isOk()`, `unwrap()` and `match()`.
+ */
+export const Maybe = <S extends z.ZodTypeAny, U>(fn: (params: z.output<S>) => U, schema: S, options: MaybeOptions<U> = {}) => {
+  const run = createMaybeRunner(schema, options);
+
+  // Without `awaitProcessor`, the runner never returns a promise.
+  return (data: z.input<S> | unknown, callOptions: MaybeCallOptions = {}): MaybeResult<U> => run(fn, data, callOptions) as MaybeResult<U>;
+};
+
+const abortError = (signal: AbortSignal) => new MaybeError('aborted', 'The operation was aborted', { cause: signal.reason });
+
+const withDeadline = <U>(steps: () => Promise<MaybeTuple<U>>, { timeout, signal }: AsyncMaybeCallOptions): Promise<MaybeTuple<U>> => {
+  // The processor and output steps capture their own failures, so what escapes comes from the validation.
+  const run = () => steps().catch((error: unknown): MaybeTuple<U> => [MaybeError.fromUnknown('validation', error), null]);
+
+  if (timeout === undefined && !signal) return run();
+  if (signal?.aborted) return Promise.resolve([abortError(signal), null]);
+
+  return new Promise((resolve) => {
+    const settle = (tuple: MaybeTuple<U>) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      resolve(tuple);
+    };
+    const onAbort = () => settle([abortError(signal!), null]);
+    const timer = timeout === undefined
+      ? undefined
+      : setTimeout(() => settle([new MaybeError('timeout', `Timed out after ${timeout}ms`), null]), timeout);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    run().then(settle);
+  });
+};
+
+/**
+ * The steps of AsyncMaybe, built once for a schema, with the processor given on each call. See `createMaybeRunner`.
+ *
+ * @param {S} schema - The schema of the input.
+ * @param {MaybeOptions<U>} [options] - The validator options.
+ * @returns {function} - A function taking the processor, the data (or a promise of it) and the per-call options.
+ */
+export const createAsyncMaybeRunner = <S extends z.ZodTypeAny, U>(schema: S, options: MaybeOptions<U> = {}) => {
+  const redactors = createRedactors(schema, options.output, options.redact);
+
+  return (fn: (params: z.output<S>) => U | Promise<U>, data: unknown, callOptions: AsyncMaybeCallOptions = {}): Promise<MaybeResult<U>> => {
+    const { inputRedactor, outputRedactor } = redactorsFor(redactors, schema, options, callOptions);
+    // Until an input promise resolves, the hooks have no input: the promise itself would leak the unmasked value.
+    const call = startCall(options, isThenable(data) ? undefined : inputRedactor.value(data), outputRedactor.value);
+    let warnings: LenientWarning[] = [];
+
+    return withDeadline(async () => {
+      const errorMap = resolveErrorMap({ locale: callOptions.locale ?? options.locale, errorMap: options.errorMap });
+
+      const [rejection, received] = await captureAsync('input-rejected', () => data);
+      if (rejection) return [rejection, null];
+      call.receive(inputRedactor.value(received));
+
+      const [[inputError, input], salvaged] = await call.stepAsync('validation', async () =>
+        parseInput(schema, received, callOptions.lenient ?? options.lenient, (current) => parseWithAsync(schema, current, 'validation', errorMap))
+      );
+      warnings = salvaged.map((warning) => ({ ...warning, issues: inputRedactor.issues(warning.issues, received) }));
+      if (inputError) return [inputRedactor.error(inputError, received), null];
+
+      const [processorError, value] = await call.stepAsync('processor', () => captureAsync('processor-threw', () => fn(input)));
+      if (processorError) return [processorError, null];
+
+      const { output } = options;
+      if (!output) return [null, value];
+
+      const [outputError, result] = await call.stepAsync('output', () => parseWithAsync(output, value, 'output-validation', errorMap));
+      return outputError ? [outputRedactor.error(outputError, value), null] : [null, result];
+    }, callOptions).then((tuple) => call.settle(toResult(tuple, warnings)));
+  };
+};
+
+/**
+ * A utility function that asynchronously applies a given function to data validated by a Zod schema.
+ *
+ * @template S - The Zod schema; the function receives its output type `z.output<S>`.
+ * @template U - The type of the output data after applying the function.
+ * @param {function} fn - A function that takes the parsed data of type `z.output<S>` and returns data of type U, or a promise of it.
+ * @param {S} schema - A Zod schema used to validate the input data. Transforms, defaults and coercions are applied before calling the function.
+ * @param {MaybeOptions<U>} [options] - Optional settings, such as an output schema or an error map.
+ * @returns {Promise<MaybeResult<U>>} - A function taking the data (or a promise of it) and optional per-call `timeout`, `signal` and `locale`, and returning a promise that resolves to a array where the first element is a MaybeError (if any) and the second element is the result of applying the function to the validated data, or null if validation fails. A rejected input promise is returned as an `input-rejected` error, exceptions thrown (or rejections) from the function as a `processor-threw` error, and expired or aborted calls as `timeout` or `aborted` errors.
+ */
+export const AsyncMaybe = <S extends z.ZodTypeAny, U>(fn: (params: z.output<S>) => U | Promise<U>, schema: S, options: MaybeOptions<U> = {}) => {
+  const run = createAsyncMaybeRunner(schema, options);
+
+  return (data: z.input<S> | PromiseLike<z.input<S>> | unknown, callOptions: AsyncMaybeCallOptions = {}): Promise<MaybeResult<U>> =>
+    run(fn, data, callOptions);
+};
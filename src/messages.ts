@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { de } from "./locales/de";
+import { fr } from "./locales/fr";
+
+/**
+ * Global message settings, applied to every validator that does not override them.
+ *
+ * @property {string} [locale] - The name of a registered locale, e.g. `'fr'`.
+ * @property {z.ZodErrorMap} [errorMap] - A custom error map. It receives the locale's message as `ctx.defaultError`.
+ */
+export type MessageSettings = {
+  locale?: string;
+  errorMap?: z.ZodErrorMap;
+};
+
+const locales: Record<string, z.ZodErrorMap> = { en: z.defaultErrorMap, fr, de };
+
+const settings: MessageSettings = {};
+
+/**
+ * Registers (or replaces) a locale pack, so it can be selected by name.
+ *
+ * @param {string} name - The locale name, e.g. `'es'`.
+ * @param {z.ZodErrorMap} errorMap - The error map producing the messages of that locale.
+ */
+export const registerLocale = (name: string, errorMap: z.ZodErrorMap): void => {
+  locales[name] = errorMap;
+};
+
+/**
+ * Sets the global locale and/or error map. Pass `undefined` to reset a setting.
+ *
+ * @param {MessageSettings} next - The settings to change.
+ */
+export const configureMessages = (next: MessageSettings): void => {
+  Object.assign(settings, next);
+};
+
+/**
+ * Keeps the messages given by the schema (`required_error`, `invalid_type_error`, `errorMap`): the locale only
+ * replaces the messages that are still Zod's English defaults.
+ */
+const translating = (localeMap: z.ZodErrorMap): z.ZodErrorMap => (issue, ctx) =>
+  ctx.defaultError === z.defaultErrorMap(issue, ctx).message ? localeMap(issue, ctx) : { message: ctx.defaultError };
+
+/**
+ * Resolves the error map of a parse, from the most to the least specific settings: the validator's error map (or the
+ * global one) is given the message of the selected locale as its default.
+ *
+ * @param {MessageSettings} overrides - The per-call and per-validator settings, already merged.
+ * @returns {z.ZodErrorMap | undefined} - The error map to pass to Zod, or undefined to keep Zod's default.
+ */
+export const resolveErrorMap = ({ locale, errorMap }: MessageSettings): z.ZodErrorMap | undefined => {
+  const selected = locales[locale ?? settings.locale ?? ''];
+  const localeMap = selected && translating(selected);
+  const customMap = errorMap ?? settings.errorMap;
+
+  if (!customMap) return localeMap;
+  if (!localeMap) return customMap;
+
+  return (issue, ctx) => customMap(issue, { ...ctx, defaultError: localeMap(issue, ctx).message });
+};
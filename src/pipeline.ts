@@ -0,0 +1,59 @@
+import { MaybeError, type MaybeTuple } from "./errors";
+import { toResult } from "./result";
+import { then, type Settle } from "./settle";
+
+type AsyncIf<V, Async extends boolean> = [V] extends [never] ? Async : [V] extends [Promise<unknown>] ? true : Async;
+
+type Step = (tuple: MaybeTuple<unknown>) => MaybeTuple<unknown> | Promise<MaybeTuple<unknown>>;
+
+/**
+ * A chain of validators and transforms that runs like a single validator.
+ * The first error short-circuits the remaining steps, and the pipeline becomes async as soon as one step is.
+ *
+ * @template I - The type of the data given to the first validator.
+ * @template O - The type of the final result.
+ * @template Async - Whether running the pipeline returns a promise.
+ */
+export type Pipeline<I, O, Async extends boolean> = {
+  (data: I): Settle<O, Async>;
+  map<V>(fn: (value: O) => V): Pipeline<I, Awaited<V>, AsyncIf<V, Async>>;
+  andThen<V>(validator: (data: O) => Promise<MaybeTuple<V>>): Pipeline<I, V, true>;
+  andThen<V>(validator: (data: O) => MaybeTuple<V>): Pipeline<I, V, Async>;
+  mapError(fn: (error: MaybeError) => MaybeError): Pipeline<I, O, Async>;
+};
+
+const attempt = (fn: () => unknown): MaybeTuple<unknown> | Promise<MaybeTuple<unknown>> => {
+  const fail = (error: unknown): MaybeTuple<unknown> => [MaybeError.fromUnknown('processor-threw', error), null];
+
+  try {
+    const value = fn();
+    return value instanceof Promise ? value.then((result): MaybeTuple<unknown> => [null, result], fail) : [null, value];
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+const createPipeline = (run: (data: unknown) => MaybeTuple<unknown> | Promise<MaybeTuple<unknown>>): Pipeline<any, any, any> => {
+  const extend = (step: Step) => createPipeline((data) => then(run(data), step));
+
+  return Object.assign((data: unknown) => then(run(data), toResult), {
+    map: (fn: (value: unknown) => unknown) => extend(([error, value]) => (error ? [error, null] : attempt(() => fn(value)))),
+    andThen: (validator: (data: unknown) => MaybeTuple<unknown> | Promise<MaybeTuple<unknown>>) =>
+      extend(([error, value]) => (error ? [error, null] : validator(value))),
+    mapError: (fn: (error: MaybeError) => MaybeError) => extend(([error, value]) => (error ? [fn(error), null] : [null, value]))
+  });
+};
+
+/**
+ * Starts a pipeline from a Maybe or AsyncMaybe validator.
+ *
+ * @template I - The type of the data accepted by the validator.
+ * @template O - The type of the validator's result.
+ * @param {function} validator - A validator created by Maybe or AsyncMaybe (or another pipeline).
+ * @returns {Pipeline<I, O, boolean>} - A pipeline that can be extended with `map`, `andThen` and `mapError`.
+ */
+export function pipe<I, O>(validator: (data: I) => Promise<MaybeTuple<O>>): Pipeline<I, O, true>;
+export function pipe<I, O>(validator: (data: I) => MaybeTuple<O>): Pipeline<I, O, false>;
+export function pipe<I, O>(validator: (data: I) => MaybeTuple<O> | Promise<MaybeTuple<O>>) {
+  return createPipeline(validator as (data: unknown) => MaybeTuple<unknown> | Promise<MaybeTuple<unknown>>);
+}
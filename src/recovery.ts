@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { MaybeError, type MaybeErrorKind, type MaybeTuple } from "./errors";
+import type { AnyValidator, InputOf, ResultOf } from "./combinators";
+import { toResult, type MaybeResult } from "./result";
+import { then } from "./settle";
+
+/**
+ * Which branch of a recovery combinator produced a result.
+ *
+ * - `primary`: the first validator succeeded.
+ * - `fallback`: the validator given to `orElse` succeeded.
+ * - `recovered`: a `recover` rule replaced the error.
+ * - `default`: `withDefault` replaced the error.
+ */
+export type Branch = 'primary' | 'fallback' | 'recovered' | 'default';
+
+/**
+ * A result recording which branch produced it.
+ *
+ * @template U - The type of the successful result.
+ */
+export type RecoveredResult<U> = MaybeResult<U> & { readonly branch: Branch };
+
+type IsAsync<F> = F extends AnyValidator ? ([Extract<ReturnType<F>, Promise<unknown>>] extends [never] ? false : true) : never;
+
+type Recovered<O, Async extends boolean> = Async extends true ? Promise<RecoveredResult<O>> : RecoveredResult<O>;
+
+type Replacement<V> = V | ((error: MaybeError) => V);
+
+/**
+ * The replacements of `recover`, by error kind or by Zod issue code. Functions are called with the error.
+ */
+export type RecoveryRules<V> = {
+  kinds?: Partial<Record<MaybeErrorKind, Replacement<V>>>;
+  codes?: Partial<Record<z.ZodIssueCode, Replacement<V>>>;
+};
+
+const withBranch = <U>(tuple: MaybeTuple<U>, branch: Branch): RecoveredResult<U> =>
+  Object.defineProperty(toResult(tuple), 'branch', { value: branch, enumerable: false, configurable: true }) as RecoveredResult<U>;
+
+/** Keeps the branch recorded by a nested recovery combinator. */
+const branchOf = (tuple: MaybeTuple<unknown>, branch: Branch): Branch => (tuple as Partial<RecoveredResult<unknown>>).branch ?? branch;
+
+const replace = <V>(replacement: Replacement<V>, error: MaybeError): V =>
+  typeof replacement === 'function' ? (replacement as (error: MaybeError) => V)(error) : replacement;
+
+/**
+ * Tries a second validator on the same input when the first one fails. When both fail, their errors are combined
+ * under the `primary` and `fallback` sources.
+ *
+ * @template P - The primary validator.
+ * @template F - The fallback validator.
+ * @param {P} primary - A validator created by Maybe, AsyncMaybe or pipe.
+ * @param {F} fallback - The validator tried when the primary one fails, e.g. a legacy payload version.
+ * @returns {function} - A validator whose result records the branch that produced it.
+ */
+export const orElse = <P extends AnyValidator, F extends AnyValidator>(primary: P, fallback: F) =>
+  (data: InputOf<P>): Recovered<ResultOf<P> | ResultOf<F>, IsAsync<P> | IsAsync<F>> => {
+    const settled = then(primary(data), (first: MaybeTuple<unknown>) => {
+      if (!first[0]) return withBranch(first, branchOf(first, 'primary'));
+
+      return then(fallback(data), (second: MaybeTuple<unknown>) =>
+        second[0]
+          ? withBranch([MaybeError.combine([['primary', first[0]!], ['fallback', second[0]]]), null], 'fallback')
+          : withBranch(second, branchOf(second, 'fallback'))
+      );
+    });
+
+    return settled as Recovered<ResultOf<P> | ResultOf<F>, IsAsync<P> | IsAsync<F>>;
+  };
+
+/**
+ * Replaces the errors of a validator matching a rule with a value. Kinds are matched first, then the codes of the
+ * error's issues; errors matching no rule are returned unchanged.
+ *
+ * @template P - The validator.
+ * @template V - The type of the replacement values.
+ * @param {P} validator - A validator created by Maybe, AsyncMaybe or pipe.
+ * @param {RecoveryRules<V>} rules - The replacement values (or functions computing them) by error kind and issue code.
+ * @returns {function} - A validator whose result records the branch that produced it.
+ */
+export const recover = <P extends AnyValidator, V>(validator: P, { kinds = {}, codes = {} }: RecoveryRules<V>) =>
+  (data: InputOf<P>): Recovered<ResultOf<P> | V, IsAsync<P>> => {
+    const settled = then(validator(data), (tuple: MaybeTuple<unknown>) => {
+      const [error] = tuple;
+      if (!error) return withBranch(tuple, branchOf(tuple, 'primary'));
+
+      const code = error.issues.map((issue) => issue.code).find((issueCode) => issueCode in codes);
+      const replacement = error.kind in kinds ? kinds[error.kind] : code ? codes[code] : undefined;
+      if (replacement === undefined) return withBranch(tuple, branchOf(tuple, 'primary'));
+
+      try {
+        return withBranch([null, replace(replacement, error)], 'recovered');
+      } catch (thrown) {
+        return withBranch([MaybeError.fromUnknown('processor-threw', thrown), null], 'recovered');
+      }
+    });
+
+    return settled as Recovered<ResultOf<P> | V, IsAsync<P>>;
+  };
+
+/**
+ * Makes a validator always succeed, replacing any error with a default value, e.g. stored settings. A fallback
+ * function that throws yields a `processor-threw` error instead.
+ *
+ * @template P - The validator.
+ * @template V - The type of the default value.
+ * @param {P} validator - A validator created by Maybe, AsyncMaybe or pipe.
+ * @param {V | function} fallback - The default value, or a function computing it from the error.
+ * @returns {function} - A validator whose result records the branch that produced it.
+ */
+export const withDefault = <P extends AnyValidator, V>(validator: P, fallback: Replacement<V>) =>
+  (data: InputOf<P>): Recovered<ResultOf<P> | V, IsAsync<P>> => {
+    const settled = then(validator(data), (tuple: MaybeTuple<unknown>) => {
+      const [error] = tuple;
+      if (!error) return withBranch(tuple, branchOf(tuple, 'primary'));
+
+      try {
+        return withBranch([null, replace(fallback, error)], 'default');
+      } catch (thrown) {
+        return withBranch([MaybeError.fromUnknown('processor-threw', thrown), null], 'default');
+      }
+    });
+
+    return settled as Recovered<ResultOf<P> | V, IsAsync<P>>;
+  };
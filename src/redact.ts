@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { MaybeError } from "./errors";
+
+type Pattern = (string | number)[];
+
+/**
+ * The value replacing redacted data.
+ */
+export const REDACTED = '[REDACTED]';
+
+const WILDCARD = '*';
+
+/**
+ * Marks a schema as sensitive: validators redact its value wherever it appears in errors and hook payloads.
+ *
+ * @template S - The Zod schema.
+ * @param {S} schema - The schema of the sensitive field.
+ * @returns {S} - A copy of the schema carrying the marker.
+ */
+export const sensitive = <S extends z.ZodTypeAny>(schema: S): S => {
+  const Schema = schema.constructor as new (def: unknown) => S;
+  return new Schema({ ...schema._def, sensitive: true });
+};
+
+const isSensitive = (schema: z.ZodTypeAny) => (schema._def as { sensitive?: boolean }).sensitive === true;
+
+/**
+ * Collects the paths of the schemas marked with `sensitive`, array items and record values becoming `*`.
+ */
+const sensitivePaths = (schema: z.ZodTypeAny, path: Pattern = [], seen = new Set<z.ZodTypeAny>()): Pattern[] => {
+  if (seen.has(schema)) return [];
+  seen.add(schema);
+  if (isSensitive(schema)) return [path];
+
+  const walk = (inner: z.ZodTypeAny, at: Pattern = path) => sensitivePaths(inner, at, seen);
+
+  if (schema instanceof z.ZodObject) {
+    return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).flatMap(([key, value]) => walk(value, [...path, key]));
+  }
+  if (schema instanceof z.ZodArray) return walk(schema.element, [...path, WILDCARD]);
+  if (schema instanceof z.ZodSet) return walk(schema._def.valueType, [...path, WILDCARD]);
+  if (schema instanceof z.ZodRecord || schema instanceof z.ZodMap) return walk(schema._def.valueType, [...path, WILDCARD]);
+  if (schema instanceof z.ZodTuple) {
+    return [
+      ...schema.items.flatMap((item: z.ZodTypeAny, index: number) => walk(item, [...path, index])),
+      ...(schema._def.rest ? walk(schema._def.rest, [...path, WILDCARD]) : [])
+    ];
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return (schema.options as z.ZodTypeAny[]).flatMap((option) => walk(option));
+  }
+  if (schema instanceof z.ZodIntersection) return [...walk(schema._def.left), ...walk(schema._def.right)];
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodBranded) return walk(schema.unwrap());
+  if (schema instanceof z.ZodDefault || schema instanceof z.ZodCatch || schema instanceof z.ZodReadonly) return walk(schema._def.innerType);
+  if (schema instanceof z.ZodEffects) return walk(schema.innerType());
+  if (schema instanceof z.ZodPipeline) return [...walk(schema._def.in), ...walk(schema._def.out)];
+  if (schema instanceof z.ZodLazy) return walk(schema.schema);
+
+  return [];
+};
+
+const parsePattern = (path: string): Pattern => path.split('.').map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+
+/** Whether the path is covered by the pattern, i.e. it is the pattern's path or lies below it. */
+const covers = (pattern: Pattern, path: Pattern) =>
+  pattern.length <= path.length &&
+  pattern.every((segment, index) => segment === WILDCARD || String(segment) === String(path[index]));
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+const valueAt = (data: unknown, path: Pattern): unknown =>
+  path.reduce<unknown>((value, segment) => (value !== null && typeof value === 'object' ? (value as Record<string | number, unknown>)[segment] : undefined), data);
+
+const maskMessage = (message: string, value: unknown) => {
+  if (typeof value === 'string' ? value === '' : typeof value !== 'number' && typeof value !== 'bigint') return message;
+  return message.split(String(value)).join(REDACTED);
+};
+
+/**
+ * Masks the issues, values and messages at the redacted paths, leaving everything else untouched.
+ */
+export type Redactor = {
+  /** Returns a copy of the data with the redacted values replaced by `REDACTED`. */
+  value: (data: unknown) => unknown;
+  /** Returns copies of the issues with the received values and messages of the redacted ones masked. */
+  issues: (issues: z.ZodIssue[], data: unknown) => z.ZodIssue[];
+  /** Returns a copy of the error with the received values and messages of its redacted issues masked. */
+  error: (error: MaybeError, data: unknown) => MaybeError;
+};
+
+/**
+ * Builds the redactor of a schema, from its `sensitive` markers and an explicit list of dotted paths (`*` matching
+ * any array index or record key).
+ *
+ * @param {z.ZodTypeAny | undefined} schema - The schema whose markers are used.
+ * @param {string[]} [paths] - Additional paths to redact, e.g. `['card.number', 'items.*.secret']`.
+ * @returns {Redactor} - The redactor.
+ */
+export const createRedactor = (schema: z.ZodTypeAny | undefined, paths: string[] = []): Redactor => {
+  const patterns = [...(schema ? sensitivePaths(schema) : []), ...paths.map(parsePattern)];
+  const isRedacted = (path: Pattern) => patterns.some((pattern) => covers(pattern, path));
+
+  const value = (data: unknown, path: Pattern = []): unknown => {
+    if (data === undefined) return data;
+    if (isRedacted(path)) return REDACTED;
+    if (Array.isArray(data)) return data.map((item, index) => value(item, [...path, index]));
+    if (isPlainObject(data)) return Object.fromEntries(Object.entries(data).map(([key, item]) => [key, value(item, [...path, key])]));
+    return data;
+  };
+
+  const maskIssue = (issue: z.ZodIssue, data: unknown): z.ZodIssue => {
+    const masked = { ...issue } as z.ZodIssue & Record<string, unknown>;
+
+    if (issue.code === z.ZodIssueCode.invalid_union) {
+      masked.unionErrors = issue.unionErrors.map((unionError) => new z.ZodError(unionError.issues.map((inner) => maskIssue(inner, data))));
+    }
+    if (!isRedacted(issue.path)) return masked;
+
+    if ('received' in issue && issue.code !== z.ZodIssueCode.invalid_type) masked.received = REDACTED;
+    if ('params' in issue && issue.params) masked.params = REDACTED;
+    masked.message = maskMessage(issue.message, valueAt(data, issue.path));
+
+    return masked;
+  };
+
+  return {
+    value: (data) => (patterns.length ? value(data) : data),
+    issues: (issues, data) => (patterns.length ? issues.map((issue) => maskIssue(issue, data)) : issues),
+    error: (error, data) => {
+      if (!patterns.length || !error.issues.length) return error;
+      return MaybeError.fromZodError(new z.ZodError(error.issues.map((issue) => maskIssue(issue, data))), error.kind);
+    }
+  };
+};
@@ -0,0 +1,210 @@
+import { z } from "zod";
+import { toJsonSchema, type JsonSchema } from "./jsonSchema";
+import { AsyncMaybe, Maybe, type MaybeOptions } from "./maybe";
+
+/**
+ * The HTTP operation a registered validator is published under.
+ *
+ * @property {string} method - The HTTP method, e.g. `'post'`.
+ * @property {string} path - The OpenAPI path, with `{name}` placeholders for path parameters.
+ */
+export type Route = {
+  method: 'get' | 'put' | 'post' | 'delete' | 'patch' | 'head' | 'options';
+  path: string;
+};
+
+/**
+ * A validator contract: the schemas it enforces and how it is published.
+ */
+export type ContractSpec = {
+  input: z.ZodTypeAny;
+  output?: z.ZodTypeAny;
+  summary?: string;
+  description?: string;
+  route?: Route;
+};
+
+/**
+ * Options of the validators created through a registry: the validator options plus the contract's documentation.
+ */
+export type RegisteredOptions<U> = MaybeOptions<U> & Omit<ContractSpec, 'input' | 'output'>;
+
+/**
+ * The head of an OpenAPI document.
+ */
+export type OpenApiInfo = {
+  title: string;
+  version: string;
+  description?: string;
+};
+
+const componentName = (name: string) =>
+  name.replace(/(?:^|[^a-zA-Z0-9]+)([a-zA-Z0-9])/g, (_, letter: string) => letter.toUpperCase());
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const problemSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'integer' },
+    detail: { type: 'string' },
+    kind: { type: 'string' },
+    errors: { type: 'object', additionalProperties: { type: 'array', items: { type: 'string' } } }
+  },
+  required: ['type', 'title', 'status', 'detail', 'kind']
+};
+
+const pathParameters = (path: string) => [...path.matchAll(/\{([^}]+)\}/g)].map(([, name]) => name!);
+
+const operation = (name: string, { input, output, summary, description, route }: ContractSpec & { route: Route }) => {
+  const inputSchema = toJsonSchema(input);
+  const properties = (inputSchema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = (inputSchema.required ?? []) as string[];
+  const inPath = pathParameters(route.path);
+  const hasBody = !['get', 'delete', 'head', 'options'].includes(route.method);
+
+  const parameter = (key: string, location: 'path' | 'query') => ({
+    name: key,
+    in: location,
+    required: location === 'path' || required.includes(key),
+    schema: properties[key] ?? { type: 'string' }
+  });
+
+  return {
+    operationId: name,
+    ...(summary ? { summary } : {}),
+    ...(description ? { description } : {}),
+    ...(inPath.length || !hasBody
+      ? {
+          parameters: [
+            ...inPath.map((key) => parameter(key, 'path')),
+            ...(hasBody ? [] : Object.keys(properties).filter((key) => !inPath.includes(key)).map((key) => parameter(key, 'query')))
+          ]
+        }
+      : {}),
+    ...(hasBody
+      ? { requestBody: { required: true, content: { 'application/json': { schema: ref(`${componentName(name)}Input`) } } } }
+      : {}),
+    responses: {
+      200: {
+        description: 'OK',
+        ...(output ? { content: { 'application/json': { schema: ref(`${componentName(name)}Output`) } } } : {})
+      },
+      400: { description: 'Invalid request', content: { 'application/problem+json': { schema: ref('Problem') } } }
+    }
+  };
+};
+
+/**
+ * Creates a registry of named validator contracts, from which JSON Schemas and an OpenAPI 3.1 document are generated.
+ * Validators created with `registry.maybe` and `registry.asyncMaybe` enforce exactly the schemas they publish.
+ *
+ * @returns {object} - The registry.
+ */
+export const createRegistry = () => {
+  const contracts = new Map<string, ContractSpec>();
+
+  const register = (name: string, spec: ContractSpec): void => {
+    if (contracts.has(name)) throw new Error(`A validator named "${name}" is already registered`);
+    contracts.set(name, spec);
+  };
+
+  const contract = (name: string): ContractSpec => {
+    const spec = contracts.get(name);
+    if (!spec) throw new Error(`No validator named "${name}" is registered`);
+    return spec;
+  };
+
+  return {
+    /**
+     * Registers the contract of an existing validator.
+     *
+     * @param {string} name - The unique name of the validator.
+     * @param {ContractSpec} spec - Its input and output schemas, and how it is published.
+     */
+    register,
+
+    /**
+     * Creates a Maybe validator and registers its contract. The name is also used as the validator's telemetry name.
+     *
+     * @param {string} name - The unique name of the validator.
+     * @param {function} fn - The processor.
+     * @param {S} schema - The input schema.
+     * @param {RegisteredOptions<U>} [options] - The validator options, plus its summary, description and route.
+     * @returns {function} - The validator.
+     */
+    maybe: <S extends z.ZodTypeAny, U>(name: string, fn: (params: z.output<S>) => U, schema: S, options: RegisteredOptions<U> = {}) => {
+      const { summary, description, route, ...maybeOptions } = options;
+      register(name, { input: schema, output: options.output, summary, description, route });
+      return Maybe(fn, schema, { name, ...maybeOptions });
+    },
+
+    /**
+     * Creates an AsyncMaybe validator and registers its contract. See `maybe`.
+     *
+     * @param {string} name - The unique name of the validator.
+     * @param {function} fn - The processor.
+     * @param {S} schema - The input schema.
+     * @param {RegisteredOptions<U>} [options] - The validator options, plus its summary, description and route.
+     * @returns {function} - The validator.
+     */
+    asyncMaybe: <S extends z.ZodTypeAny, U>(name: string, fn: (params: z.output<S>) => U | Promise<U>, schema: S, options: RegisteredOptions<U> = {}) => {
+      const { summary, description, route, ...maybeOptions } = options;
+      register(name, { input: schema, output: options.output, summary, description, route });
+      return AsyncMaybe(fn, schema, { name, ...maybeOptions });
+    },
+
+    /**
+     * Returns the contract registered under a name.
+     */
+    get: contract,
+
+    /**
+     * Returns the names of the registered validators, in registration order.
+     */
+    names: (): string[] => [...contracts.keys()],
+
+    /**
+     * Generates the JSON Schemas of a validator's input and, when it has one, its output.
+     *
+     * @param {string} name - The name of the validator.
+     * @returns {{ input: JsonSchema; output?: JsonSchema }} - The JSON Schemas.
+     */
+    toJsonSchema: (name: string): { input: JsonSchema; output?: JsonSchema } => {
+      const { input, output } = contract(name);
+      return { input: toJsonSchema(input), ...(output ? { output: toJsonSchema(output, 'output') } : {}) };
+    },
+
+    /**
+     * Assembles an OpenAPI 3.1 document: every contract becomes `<Name>Input` and `<Name>Output` schema components,
+     * and contracts with a route become operations answering `application/problem+json` on invalid input.
+     *
+     * @param {OpenApiInfo} info - The title, version and description of the API.
+     * @returns {object} - The OpenAPI document, ready to be serialized as JSON or YAML.
+     */
+    toOpenApi: (info: OpenApiInfo) => {
+      const schemas: Record<string, JsonSchema> = {};
+      const paths: Record<string, Record<string, unknown>> = {};
+
+      for (const [name, spec] of contracts) {
+        schemas[`${componentName(name)}Input`] = toJsonSchema(spec.input);
+        if (spec.output) schemas[`${componentName(name)}Output`] = toJsonSchema(spec.output, 'output');
+        if (spec.route) (paths[spec.route.path] ??= {})[spec.route.method] = operation(name, { ...spec, route: spec.route });
+      }
+
+      return {
+        openapi: '3.1.0',
+        info,
+        paths,
+        components: { schemas: { ...schemas, Problem: problemSchema } }
+      };
+    }
+  };
+};
+
+/**
+ * A registry of named validator contracts, as created by `createRegistry`.
+ */
+export type Registry = ReturnType<typeof createRegistry>;
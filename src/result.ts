@@ -0,0 +1,81 @@
+import { MaybeError, type MaybeTuple } from "./errors";
+import type { LenientWarning } from "./lenient";
+
+/**
+ * Methods available on every result returned by Maybe, AsyncMaybe and pipelines.
+ *
+ * @template U - The type of the successful result.
+ */
+export type ResultMethods<U> = {
+  /** The fields lenient mode removed from the input. Empty unless the validator is lenient. */
+  readonly warnings: LenientWarning[];
+  /** Narrows the result to its success case. */
+  isOk(): this is OkResult<U>;
+  /** Narrows the result to its failure case. */
+  isErr(): this is ErrResult<U>;
+  /** Returns the value, or throws the MaybeError. */
+  unwrap(): U;
+  /** Returns the value, or the given fallback on failure. */
+  unwrapOr<V>(fallback: V): U | V;
+  /** Calls `ok` with the value or `err` with the error, and returns what it returns. */
+  match<R>(handlers: { ok: (value: U) => R; err: (error: MaybeError) => R }): R;
+  /** Transforms the value of a successful result. Exceptions thrown by `fn` become a `processor-threw` error. */
+  map<V>(fn: (value: U) => V): MaybeResult<V>;
+};
+
+export type OkResult<U> = [error: null, result: U] & ResultMethods<U>;
+
+export type ErrResult<U> = [error: MaybeError, result: null] & ResultMethods<U>;
+
+/**
+ * An `[error, result]` tuple with result methods attached. It destructures like the plain tuple, and checking the
+ * error narrows the result.
+ *
+ * @template U - The type of the successful result.
+ */
+export type MaybeResult<U> = OkResult<U> | ErrResult<U>;
+
+const methods: ThisType<MaybeTuple<unknown>> = {
+  isOk() {
+    return this[0] === null;
+  },
+  isErr() {
+    return this[0] !== null;
+  },
+  unwrap() {
+    if (this[0]) throw this[0];
+    return this[1];
+  },
+  unwrapOr(fallback: unknown) {
+    return this[0] ? fallback : this[1];
+  },
+  match({ ok, err }: { ok: (value: unknown) => unknown; err: (error: MaybeError) => unknown }) {
+    return this[0] ? err(this[0]) : ok(this[1]);
+  },
+  map(fn: (value: unknown) => unknown): MaybeResult<unknown> {
+    if (this[0]) return toResult([this[0], null]);
+    try {
+      return toResult([null, fn(this[1])], (this as MaybeResult<unknown>).warnings);
+    } catch (error) {
+      return toResult([MaybeError.fromUnknown('processor-threw', error), null]);
+    }
+  }
+};
+
+const descriptors = Object.fromEntries(
+  Object.entries(methods).map(([name, value]) => [name, { value, enumerable: false, configurable: true }])
+);
+
+/**
+ * Attaches the result methods to an `[error, result]` tuple.
+ *
+ * @template U - The type of the successful result.
+ * @param {MaybeTuple<U>} tuple - The tuple to enrich.
+ * @param {LenientWarning[]} [warnings] - The warnings of a lenient validation. Defaults to those already on the tuple.
+ * @returns {MaybeResult<U>} - The same tuple, with the result methods.
+ */
+export const toResult = <U>(tuple: MaybeTuple<U>, warnings: LenientWarning[] = (tuple as Partial<MaybeResult<U>>).warnings ?? []): MaybeResult<U> =>
+  Object.defineProperties(tuple, {
+    ...descriptors,
+    warnings: { value: warnings, enumerable: false, configurable: true }
+  }) as MaybeResult<U>;
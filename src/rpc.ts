@@ -0,0 +1,415 @@
+import { z } from "zod";
+import { MaybeError, type MaybeErrorKind } from "./errors";
+import { statuses } from "./http";
+import { AsyncMaybe, type AsyncMaybeCallOptions, type MaybeOptions } from "./maybe";
+import { toResult, type MaybeResult } from "./result";
+
+const PROCEDURE = Symbol('procedure');
+
+/**
+ * A named operation of a router: an input schema, a processor and its validator options (such as an output schema).
+ *
+ * @template S - The Zod schema of the input.
+ * @template U - The type of the result.
+ */
+export type Procedure<S extends z.ZodTypeAny, U> = {
+  readonly [PROCEDURE]: true;
+  readonly input: S;
+  readonly fn: (params: z.output<S>) => U | Promise<U>;
+  readonly options: MaybeOptions<U>;
+};
+
+/**
+ * Procedures, grouped in nested objects.
+ */
+export type ProcedureTree = { [name: string]: Procedure<any, any> | ProcedureTree };
+
+/**
+ * A MaybeError as it crosses the wire.
+ */
+export type SerializedError = {
+  kind: MaybeErrorKind;
+  message: string;
+  issues: z.ZodIssue[];
+};
+
+/**
+ * A call of a procedure, identified by its dotted path, e.g. `users.create`.
+ */
+export type RpcRequest = {
+  id?: number;
+  path: string;
+  input: unknown;
+};
+
+/**
+ * The `[error, result]` tuple of a call, serialized.
+ */
+export type RpcResponse = {
+  id?: number;
+  error: SerializedError | null;
+  result: unknown;
+};
+
+/**
+ * @property {boolean} [exposeErrors] - Sends the message and issues of processor and output failures to clients. By default they only receive that the procedure failed.
+ */
+export type RpcServerOptions = {
+  exposeErrors?: boolean;
+};
+
+/**
+ * Sends a request to a router and resolves with its response. See `httpLink` and `workerLink`.
+ */
+export type Link = (request: RpcRequest, options?: { signal?: AbortSignal }) => Promise<RpcResponse>;
+
+/**
+ * A typed client of a router: every procedure becomes a function taking its input and resolving to a MaybeResult.
+ *
+ * @template T - The procedures of the router.
+ */
+export type Client<T extends ProcedureTree> = {
+  [K in keyof T]: T[K] extends Procedure<infer S, infer U>
+    ? (input: z.input<S>, options?: { signal?: AbortSignal }) => Promise<MaybeResult<U>>
+    : T[K] extends ProcedureTree
+      ? Client<T[K]>
+      : never;
+};
+
+/**
+ * The port a worker router listens on: a `worker_threads` port or worker, or a Web Worker or `MessagePort`.
+ */
+export type MessagePortLike = {
+  postMessage(message: unknown): void;
+  on?(event: string, listener: (message: any) => void): unknown;
+  off?(event: string, listener: (message: any) => void): unknown;
+  addEventListener?(type: string, listener: (event: any) => void): unknown;
+  removeEventListener?(type: string, listener: (event: any) => void): unknown;
+  start?(): void;
+};
+
+const transportError = (message: string, cause?: unknown) => new MaybeError('transport', message, { cause });
+
+/**
+ * Declares a procedure. Its validator is an AsyncMaybe, named after the procedure's path unless `options.name` is set.
+ *
+ * @template S - The Zod schema of the input.
+ * @template U - The type of the result.
+ * @param {S} input - The schema of the input.
+ * @param {function} fn - The processor, receiving the validated input.
+ * @param {MaybeOptions<U>} [options] - The validator options, such as an output schema.
+ * @returns {Procedure<S, U>} - The procedure, to be given to `createRouter`.
+ */
+export const procedure = <S extends z.ZodTypeAny, U>(
+  input: S,
+  fn: (params: z.output<S>) => U | Promise<U>,
+  options: MaybeOptions<U> = {}
+): Procedure<S, U> => ({ [PROCEDURE]: true, input, fn, options });
+
+const isProcedure = (value: unknown): value is Procedure<any, any> =>
+  typeof value === 'object' && value !== null && PROCEDURE in value;
+
+const flatten = (tree: ProcedureTree, prefix = ''): [string, Procedure<z.ZodTypeAny, unknown>][] =>
+  Object.entries(tree).flatMap(([name, value]) =>
+    isProcedure(value) ? [[`${prefix}${name}`, value] as [string, Procedure<z.ZodTypeAny, unknown>]] : flatten(value, `${prefix}${name}.`)
+  );
+
+const isExposed = (kind: MaybeErrorKind) => kind === 'transport' || statuses[kind] !== undefined;
+
+/**
+ * Serializes a MaybeError for a client. Processor and output failures are reduced to their kind unless `expose` is set.
+ *
+ * @param {MaybeError} error - The error.
+ * @param {boolean} [expose] - Whether to keep the details of processor and output failures.
+ * @returns {SerializedError} - The plain, cloneable error.
+ */
+export const serializeError = (error: MaybeError, expose = false): SerializedError =>
+  expose || isExposed(error.kind)
+    ? { kind: error.kind, message: error.message, issues: error.issues }
+    : { kind: error.kind, message: 'The procedure failed', issues: [] };
+
+/**
+ * Rebuilds a MaybeError serialized by `serializeError`.
+ *
+ * @param {SerializedError} error - The serialized error.
+ * @returns {MaybeError} - The error, with its field errors.
+ */
+export const deserializeError = ({ kind, message, issues }: SerializedError): MaybeError => new MaybeError(kind, message, { issues });
+
+/**
+ * Creates a router grouping procedures. It calls them by path, and answers the requests of the HTTP and worker
+ * transports (see `createRpcHandler` and `serveWorker`).
+ *
+ * @template T - The procedures, nested in groups.
+ * @param {T} procedures - The procedures, e.g. `{ users: { create, get }, health }`.
+ * @returns {object} - The router.
+ */
+export const createRouter = <T extends ProcedureTree>(procedures: T) => {
+  const validators = new Map(
+    flatten(procedures).map(([path, { input, fn, options }]) => [path, AsyncMaybe(fn, input, { name: path, ...options })])
+  );
+
+  const call = (path: string, input: unknown, options?: AsyncMaybeCallOptions): Promise<MaybeResult<unknown>> => {
+    const validator = validators.get(path);
+    if (!validator) return Promise.resolve(toResult<unknown>([transportError(`Unknown procedure "${path}"`), null]));
+    return validator(input, options);
+  };
+
+  return {
+    procedures,
+
+    /**
+     * Returns the dotted paths of the procedures.
+     */
+    paths: (): string[] => [...validators.keys()],
+
+    /**
+     * Calls a procedure by path. Unknown paths resolve with a `transport` error.
+     *
+     * @param {string} path - The dotted path of the procedure.
+     * @param {unknown} input - Its input.
+     * @param {AsyncMaybeCallOptions} [options] - The per-call timeout, signal and locale.
+     * @returns {Promise<MaybeResult<unknown>>} - The result of the procedure.
+     */
+    call,
+
+    /**
+     * Answers a serialized request with the serialized result.
+     *
+     * @param {RpcRequest} request - The path and input of the call.
+     * @param {RpcServerOptions & AsyncMaybeCallOptions} [options] - Whether to expose failure details, and the per-call options.
+     * @returns {Promise<RpcResponse>} - The response, with the id of the request.
+     */
+    handle: async ({ id, path, input }: RpcRequest, { exposeErrors, ...options }: RpcServerOptions & AsyncMaybeCallOptions = {}): Promise<RpcResponse> => {
+      const [error, result] = await call(path, input, options);
+      return { ...(id === undefined ? {} : { id }), error: error ? serializeError(error, exposeErrors) : null, result: error ? null : result };
+    }
+  };
+};
+
+/**
+ * A router, as created by `createRouter`. Give `typeof router` to `createClient`.
+ *
+ * @template T - The procedures of the router.
+ */
+export type Router<T extends ProcedureTree = ProcedureTree> = ReturnType<typeof createRouter<T>>;
+
+/**
+ * Creates a Fetch API handler serving a router: `POST <prefix><path>` with the JSON input as body. The response holds
+ * the serialized `[error, result]` tuple, with the status of the failure (400 for invalid input, 404 for unknown
+ * procedures, 405 for methods other than POST). Use `toNodeListener` to serve it with `node:http`.
+ *
+ * @param {Router} router - The router to serve.
+ * @param {RpcServerOptions & { prefix?: string }} [options] - The path prefix, `/` by default, and whether to expose failure details.
+ * @returns {function} - A handler taking a request and resolving to a response.
+ */
+export const createRpcHandler = (router: Router<any>, { prefix = '/', ...options }: RpcServerOptions & { prefix?: string } = {}) =>
+  async (request: Request): Promise<Response> => {
+    if (request.method !== 'POST') {
+      const response: RpcResponse = { error: serializeError(transportError(`Method ${request.method} not allowed, use POST`)), result: null };
+      return Response.json(response, { status: 405, headers: { allow: 'POST' } });
+    }
+
+    const { pathname } = new URL(request.url);
+    const path = pathname.startsWith(prefix) ? pathname.slice(prefix.length).replace(/^\//, '') : '';
+
+    const text = await request.text();
+    let input: unknown;
+    try {
+      input = text ? JSON.parse(text) : undefined;
+    } catch (error) {
+      const response: RpcResponse = { error: serializeError(new MaybeError('parse', 'Invalid JSON', { cause: error })), result: null };
+      return Response.json(response, { status: 400 });
+    }
+
+    const response = await router.handle({ path, input }, { ...options, signal: request.signal });
+    const kind = response.error?.kind;
+    const status = kind === undefined ? 200 : kind === 'transport' ? 404 : statuses[kind]?.[0] ?? 500;
+    return Response.json(response, { status });
+  };
+
+const listen = (port: MessagePortLike, listener: (data: unknown) => void): (() => void) => {
+  if (port.on) {
+    port.on('message', listener);
+    return () => port.off?.('message', listener);
+  }
+
+  const onEvent = (event: { data: unknown }) => listener(event.data);
+  port.addEventListener?.('message', onEvent);
+  port.start?.();
+  return () => port.removeEventListener?.('message', onEvent);
+};
+
+// Node ports emit `close` once the other side is closed, Node workers `exit` or `error`, and Web Workers `error`.
+const closeEvents = ['close', 'exit', 'error'];
+
+const listenForClose = (port: MessagePortLike, listener: () => void): (() => void) => {
+  const stops = closeEvents.map((event) => {
+    if (port.on) {
+      port.on(event, listener);
+      return () => port.off?.(event, listener);
+    }
+    port.addEventListener?.(event, listener);
+    return () => port.removeEventListener?.(event, listener);
+  });
+  return () => stops.forEach((stop) => stop());
+};
+
+const isRequest = (data: unknown): data is RpcRequest =>
+  typeof data === 'object' && data !== null && typeof (data as RpcRequest).path === 'string';
+
+/**
+ * Serves a router over a message port, e.g. `parentPort` inside a `worker_threads` worker, or `self` in a Web Worker.
+ * Results are sent with the structured clone algorithm, so dates, maps and sets survive the trip.
+ *
+ * @param {Router} router - The router to serve.
+ * @param {MessagePortLike} port - The port to listen on.
+ * @param {RpcServerOptions} [options] - Whether to expose failure details.
+ * @returns {function} - Stops listening.
+ */
+export const serveWorker = (router: Router<any>, port: MessagePortLike, options: RpcServerOptions = {}): (() => void) =>
+  listen(port, (data) => {
+    if (!isRequest(data)) return;
+
+    // A result the structured clone algorithm rejects (functions, class instances with private state, ...) must still
+    // settle the call on the client. The clone error is not sent: its message may quote the value.
+    router.handle(data, options)
+      .then((response) => port.postMessage(response))
+      .catch((error: unknown) => {
+        const failure = transportError(`The result of "${data.path}" cannot be sent over the port`, error);
+        port.postMessage({ ...(data.id === undefined ? {} : { id: data.id }), error: serializeError(failure), result: null } satisfies RpcResponse);
+      });
+  });
+
+/**
+ * Creates a link calling a router served by `createRpcHandler`.
+ *
+ * @param {object} options - The URL the router is served at, the `fetch` function and the headers to send.
+ * @returns {Link} - The link, to be given to `createClient`.
+ */
+export const httpLink = ({
+  url,
+  fetch = globalThis.fetch,
+  headers = {}
+}: {
+  url: string;
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+  headers?: Record<string, string>;
+}): Link =>
+  async ({ path, input }, { signal } = {}) => {
+    let response: Response;
+    try {
+      response = await fetch(`${url.replace(/\/$/, '')}/${path}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: input === undefined ? undefined : JSON.stringify(input),
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) return { error: serializeError(new MaybeError('aborted', 'The operation was aborted')), result: null };
+      return { error: serializeError(transportError(`Cannot reach ${url}: ${(error as Error).message}`, error)), result: null };
+    }
+
+    const body: unknown = await response.json().catch(() => undefined);
+    if (typeof body !== 'object' || body === null || !('error' in body)) {
+      return { error: serializeError(transportError(`Unexpected response from ${url} (${response.status})`)), result: null };
+    }
+    return body as RpcResponse;
+  };
+
+/**
+ * Creates a link calling a router served by `serveWorker` on the other side of a port.
+ *
+ * @param {MessagePortLike} port - The worker, or the port to the worker.
+ * @returns {Link} - The link, to be given to `createClient`.
+ */
+export const workerLink = (port: MessagePortLike): Link => {
+  const pending = new Map<number, (response: RpcResponse) => void>();
+  let sequence = 0;
+  let stop: (() => void) | undefined;
+
+  const settle = (id: number, response: RpcResponse) => {
+    const resolve = pending.get(id);
+    if (!resolve) return;
+    pending.delete(id);
+    resolve(response);
+    // Stop listening when idle, so that the port does not keep the process alive.
+    if (!pending.size) {
+      stop?.();
+      stop = undefined;
+    }
+  };
+
+  const onMessage = (data: unknown) => {
+    const { id } = (data ?? {}) as RpcResponse;
+    if (id !== undefined) settle(id, data as RpcResponse);
+  };
+
+  // No response comes once the port is closed or the worker is gone.
+  const onClose = () => {
+    for (const id of [...pending.keys()]) {
+      settle(id, { id, error: serializeError(transportError('The worker port closed before responding')), result: null });
+    }
+  };
+
+  const start = () => {
+    const stopMessages = listen(port, onMessage);
+    const stopClose = listenForClose(port, onClose);
+    return () => {
+      stopMessages();
+      stopClose();
+    };
+  };
+
+  return ({ path, input }, { signal } = {}) =>
+    new Promise((resolve) => {
+      sequence += 1;
+      const id = sequence;
+      const aborted = (): RpcResponse => ({ id, error: serializeError(new MaybeError('aborted', 'The operation was aborted')), result: null });
+
+      if (signal?.aborted) return resolve(aborted());
+      const onAbort = () => settle(id, aborted());
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      pending.set(id, (response) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(response);
+      });
+      stop ??= start();
+
+      try {
+        port.postMessage({ id, path, input } satisfies RpcRequest);
+      } catch (error) {
+        settle(id, { id, error: serializeError(transportError(`The input of "${path}" cannot be sent over the port`, error)), result: null });
+      }
+    });
+};
+
+/**
+ * Creates the typed client of a router. Calls resolve to the same `[error, result]` tuple as the procedure, with
+ * the MaybeError rebuilt on the client side.
+ *
+ * ```typescript
+ * const client = createClient<typeof router>(httpLink({ url: 'http://localhost:3000/rpc' }));
+ * const [error, user] = await client.users.create({ name: 'Ada' });
+ * ```
+ *
+ * @template R - The type of the router, `typeof router`.
+ * @param {Link} link - How to reach the router.
+ * @returns {Client} - The client.
+ */
+export const createClient = <R extends Router<any>>(link: Link): Client<R['procedures']> => {
+  const call = async (path: string, input: unknown, options?: { signal?: AbortSignal }) => {
+    const { error, result } = await link({ path, input }, options);
+    return toResult<unknown>(error ? [deserializeError(error), null] : [null, result]);
+  };
+
+  const node = (path: string[]): unknown =>
+    new Proxy(() => {}, {
+      // `then` is left undefined so that the client is not mistaken for a promise.
+      get: (_, key) => (typeof key === 'string' && key !== 'then' ? node([...path, key]) : undefined),
+      apply: (_, __, [input, options]) => call(path.join('.'), input, options)
+    });
+
+  return node([]) as Client<R['procedures']>;
+};
@@ -0,0 +1,15 @@
+import type { MaybeResult } from "./result";
+
+/**
+ * The value returned by a validator that may or may not be async.
+ *
+ * @template O - The type of the successful result.
+ * @template Async - Whether the validator returns a promise.
+ */
+export type Settle<O, Async extends boolean> = Async extends true ? Promise<MaybeResult<O>> : MaybeResult<O>;
+
+/**
+ * Calls `fn` with the value, waiting for it first when it is a promise. Keeps synchronous values synchronous.
+ */
+export const then = <A, B>(value: A | Promise<A>, fn: (value: A) => B | Promise<B>): B | Promise<B> =>
+  value instanceof Promise ? value.then(fn) : fn(value);
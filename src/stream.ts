@@ -0,0 +1,125 @@
+import { MaybeError, type MaybeTuple } from "./errors";
+
+/**
+ * Where a streamed record came from: its 1-based line number (or position, for non NDJSON sources)
+ * and the raw input given to the validator, or the undecodable line for parse errors.
+ */
+export type StreamRecord = {
+  line: number;
+  input: unknown;
+};
+
+/**
+ * The `[error, result]` tuple of a streamed record, followed by the record it was produced from.
+ *
+ * @template U - The type of the validator's result.
+ */
+export type StreamTuple<U> = [MaybeError | null, U | null, StreamRecord];
+
+type StreamValidator<U> = (data: unknown) => MaybeTuple<U> | Promise<MaybeTuple<U>>;
+
+/**
+ * Callbacks receiving the valid results and the rejected records of a stream. Returned promises are awaited
+ * before the next record is read.
+ *
+ * @template U - The type of the validator's result.
+ */
+export type StreamSinks<U> = {
+  valid?: (result: U, record: StreamRecord) => void | Promise<void>;
+  invalid?: (error: MaybeError, record: StreamRecord) => void | Promise<void>;
+};
+
+const splitLines = async function* (source: AsyncIterable<string | Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of source) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    for (const line of lines) yield line.replace(/\r$/, '');
+  }
+
+  buffer += decoder.decode();
+  if (buffer) yield buffer.replace(/\r$/, '');
+};
+
+/**
+ * Validates every record of an (async) iterable as it is read, without loading the source in memory.
+ *
+ * @template U - The type of the validator's result.
+ * @param {AsyncIterable<unknown> | Iterable<unknown>} source - The records to validate.
+ * @param {function} validator - A validator created by Maybe or AsyncMaybe.
+ * @returns {AsyncGenerator<StreamTuple<U>>} - One `[error, result, record]` tuple per record, in order.
+ */
+export const validateStream = async function* <U>(
+  source: AsyncIterable<unknown> | Iterable<unknown>,
+  validator: StreamValidator<U>
+): AsyncGenerator<StreamTuple<U>> {
+  let line = 0;
+
+  for await (const input of source) {
+    line += 1;
+    const [error, result] = await validator(input);
+    yield [error, result, { line, input }];
+  }
+};
+
+/**
+ * Validates a stream of newline-delimited JSON, such as a Node `Readable` or a Fetch body.
+ * Blank lines are skipped, and malformed lines are reported as `parse` errors.
+ *
+ * @template U - The type of the validator's result.
+ * @param {AsyncIterable<string | Uint8Array>} source - The NDJSON text, in chunks of any size.
+ * @param {function} validator - A validator created by Maybe or AsyncMaybe.
+ * @returns {AsyncGenerator<StreamTuple<U>>} - One `[error, result, record]` tuple per non blank line, in order.
+ */
+export const validateNdjson = async function* <U>(
+  source: AsyncIterable<string | Uint8Array>,
+  validator: StreamValidator<U>
+): AsyncGenerator<StreamTuple<U>> {
+  let line = 0;
+
+  for await (const text of splitLines(source)) {
+    line += 1;
+    if (!text.trim()) continue;
+
+    let input: unknown;
+    try {
+      input = JSON.parse(text);
+    } catch (error) {
+      yield [new MaybeError('parse', `Invalid JSON on line ${line}`, { cause: error }), null, { line, input: text }];
+      continue;
+    }
+
+    const [error, result] = await validator(input);
+    yield [error, result, { line, input }];
+  }
+};
+
+/**
+ * Consumes a validated stream, sending valid results and rejected records to separate sinks.
+ *
+ * @template U - The type of the validator's result.
+ * @param {AsyncIterable<StreamTuple<U>>} entries - A stream created by validateStream or validateNdjson.
+ * @param {StreamSinks<U>} sinks - The callbacks receiving valid results and rejected records.
+ * @returns {Promise<{ valid: number; invalid: number }>} - The number of records sent to each sink.
+ */
+export const splitStream = async <U>(
+  entries: AsyncIterable<StreamTuple<U>>,
+  { valid, invalid }: StreamSinks<U>
+): Promise<{ valid: number; invalid: number }> => {
+  const counts = { valid: 0, invalid: 0 };
+
+  for await (const [error, result, record] of entries) {
+    if (error) {
+      counts.invalid += 1;
+      await invalid?.(error, record);
+    } else {
+      counts.valid += 1;
+      await valid?.(result as U, record);
+    }
+  }
+
+  return counts;
+};
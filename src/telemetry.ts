@@ -0,0 +1,242 @@
+import { MaybeError, formatPath, type MaybeErrorKind, type MaybeTuple } from "./errors";
+
+/**
+ * How long each step of a validation call took, in milliseconds. Steps that did not run are left out.
+ */
+export type Durations = {
+  validation?: number;
+  processor?: number;
+  output?: number;
+  total: number;
+};
+
+type Step = Exclude<keyof Durations, 'total'>;
+
+/**
+ * The payload given to the `onSuccess` hook.
+ */
+export type SuccessEvent<U> = {
+  name?: string;
+  input: unknown;
+  result: U;
+  durations: Durations;
+};
+
+/**
+ * The payload given to the `onError` hook. `paths` are the dotted paths of the failing fields. `input` is undefined
+ * when the validator was given a promise that did not resolve (rejected, timed out or aborted).
+ */
+export type ErrorEvent = {
+  name?: string;
+  input: unknown;
+  error: MaybeError;
+  kind: MaybeErrorKind;
+  paths: string[];
+  durations: Durations;
+};
+
+/**
+ * The payload given to the `onSettled` hook, whatever the outcome of the call.
+ */
+export type SettledEvent<U = unknown> = (SuccessEvent<U> & { ok: true }) | (ErrorEvent & { ok: false });
+
+/**
+ * A span, as created by a Tracer. OpenTelemetry spans fit this interface.
+ */
+export type Span = {
+  setAttributes(attributes: Record<string, string | number | boolean | string[]>): unknown;
+  end(): void;
+};
+
+/**
+ * Creates one span per validation call. OpenTelemetry tracers fit this interface.
+ */
+export type Tracer = {
+  startSpan(name: string): Span;
+};
+
+/**
+ * Hooks called after each validation call. Exceptions thrown by hooks are ignored, so they cannot change the result.
+ *
+ * @template U - The type of the successful result.
+ * @property {string} [name] - A name identifying the validator in hook payloads, spans and metrics.
+ * @property {function} [onSuccess] - Called with the result when the call succeeds.
+ * @property {function} [onError] - Called with the MaybeError when the call fails.
+ * @property {function} [onSettled] - Called after every call.
+ * @property {Tracer} [tracer] - A tracer creating one span per call.
+ */
+export type TelemetryOptions<U> = {
+  name?: string;
+  onSuccess?: (event: SuccessEvent<U>) => void;
+  onError?: (event: ErrorEvent) => void;
+  onSettled?: (event: SettledEvent<U>) => void;
+  tracer?: Tracer;
+};
+
+const ignoreErrors = <E>(hook: ((event: E) => void) | undefined, event: E) => {
+  try {
+    hook?.(event);
+  } catch {
+    // Telemetry must never change the outcome of a validation.
+  }
+};
+
+const issuePaths = (error: MaybeError): string[] => [...new Set(error.issues.map((issue) => formatPath(issue.path)))];
+
+/**
+ * Starts measuring a validation call. `step` and `stepAsync` time each step, and `settle` reports the outcome to the
+ * hooks and the tracer before handing the tuple back.
+ *
+ * @param {TelemetryOptions<U>} options - The hooks and tracer of the validator.
+ * @param {unknown} input - The data the validator was called with, redacted.
+ * @param {function} [redactResult] - Masks the redacted values of the result before it is given to the hooks.
+ * @returns {object} - The call's probe.
+ */
+export const startCall = <U>(options: TelemetryOptions<U>, input: unknown, redactResult: (result: U) => unknown = (result) => result) => {
+  const { name, onSuccess, onError, onSettled, tracer } = options;
+  const durations: Durations = { total: 0 };
+  const startedAt = performance.now();
+  const span = tracer?.startSpan(name ?? 'maybe');
+
+  const timed = (step: Step, since: number) => {
+    durations[step] = performance.now() - since;
+  };
+
+  return {
+    step: <V>(step: Step, fn: () => V): V => {
+      const since = performance.now();
+      try {
+        return fn();
+      } finally {
+        timed(step, since);
+      }
+    },
+
+    stepAsync: async <V>(step: Step, fn: () => Promise<V>): Promise<V> => {
+      const since = performance.now();
+      try {
+        return await fn();
+      } finally {
+        timed(step, since);
+      }
+    },
+
+    /** Replaces the input given to the hooks, once the promise a validator was called with has resolved. */
+    receive: (received: unknown): void => {
+      input = received;
+    },
+
+    settle: <T extends MaybeTuple<U>>(tuple: T): T => {
+      durations.total = performance.now() - startedAt;
+      const [error, result] = tuple;
+
+      const event: SettledEvent<U> = error
+        ? { ok: false, name, input, error, kind: error.kind, paths: issuePaths(error), durations }
+        : { ok: true, name, input, result: redactResult(result as U) as U, durations };
+
+      if (event.ok) ignoreErrors(onSuccess, event);
+      else ignoreErrors(onError, event);
+      ignoreErrors(onSettled, event);
+
+      if (span) {
+        ignoreErrors((attributes: Parameters<Span['setAttributes']>[0]) => {
+          span.setAttributes(attributes);
+          span.end();
+        }, {
+          ...(name ? { 'maybe.name': name } : {}),
+          'maybe.ok': event.ok,
+          ...(event.ok ? {} : { 'maybe.error.kind': event.kind, 'maybe.issue.paths': event.paths }),
+          ...Object.fromEntries(Object.entries(durations).map(([step, duration]) => [`maybe.duration.${step}`, duration]))
+        });
+      }
+
+      return tuple;
+    }
+  };
+};
+
+/**
+ * Counts, durations and failures recorded for one validator name.
+ */
+export type ValidatorMetrics = {
+  calls: number;
+  succeeded: number;
+  failed: number;
+  errorKinds: Partial<Record<MaybeErrorKind, number>>;
+  fieldFailures: Record<string, number>;
+  durations: { [K in keyof Durations]-?: { count: number; total: number; max: number } };
+};
+
+/**
+ * An in-memory metrics collector. Pass its `record` method as the `onSettled` hook of one or more validators.
+ */
+export type MetricsCollector = {
+  /** Records a settled call. */
+  record: (event: SettledEvent) => void;
+  /** Returns the metrics of one validator name, or of all calls when no name is given. */
+  get: (name?: string) => ValidatorMetrics;
+  /** Returns the metrics of every validator name seen so far. Calls without a name are under `'anonymous'`. */
+  snapshot: () => Record<string, ValidatorMetrics>;
+  /** Forgets everything recorded so far. */
+  reset: () => void;
+};
+
+const emptyMetrics = (): ValidatorMetrics => ({
+  calls: 0,
+  succeeded: 0,
+  failed: 0,
+  errorKinds: {},
+  fieldFailures: {},
+  durations: {
+    validation: { count: 0, total: 0, max: 0 },
+    processor: { count: 0, total: 0, max: 0 },
+    output: { count: 0, total: 0, max: 0 },
+    total: { count: 0, total: 0, max: 0 }
+  }
+});
+
+const addEvent = (metrics: ValidatorMetrics, event: SettledEvent) => {
+  metrics.calls += 1;
+
+  if (event.ok) {
+    metrics.succeeded += 1;
+  } else {
+    metrics.failed += 1;
+    metrics.errorKinds[event.kind] = (metrics.errorKinds[event.kind] ?? 0) + 1;
+    event.paths.forEach((path) => {
+      metrics.fieldFailures[path] = (metrics.fieldFailures[path] ?? 0) + 1;
+    });
+  }
+
+  (Object.entries(event.durations) as [keyof Durations, number][]).forEach(([step, duration]) => {
+    const stats = metrics.durations[step];
+    stats.count += 1;
+    stats.total += duration;
+    stats.max = Math.max(stats.max, duration);
+  });
+};
+
+/**
+ * Creates an in-memory metrics collector, counting calls, failures per error kind and per field, and step durations.
+ *
+ * @returns {MetricsCollector} - The collector.
+ */
+export const createMetrics = (): MetricsCollector => {
+  let overall = emptyMetrics();
+  let byName = new Map<string, ValidatorMetrics>();
+
+  return {
+    record: (event) => {
+      const name = event.name ?? 'anonymous';
+      if (!byName.has(name)) byName.set(name, emptyMetrics());
+      addEvent(byName.get(name)!, event);
+      addEvent(overall, event);
+    },
+    get: (name) => structuredClone(name === undefined ? overall : byName.get(name) ?? emptyMetrics()),
+    snapshot: () => structuredClone(Object.fromEntries(byName)),
+    reset: () => {
+      overall = emptyMetrics();
+      byName = new Map();
+    }
+  };
+};
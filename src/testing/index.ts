@@ -0,0 +1,3 @@
+export { sample, samples, invalidSamples, forAll, type SampleOptions, type InvalidSample } from "./sample";
+export { matchers, type MaybeMatchers } from "./matchers";
+export { createRandom, type Random } from "./random";
@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { formatPath, type MaybeError } from "../errors";
+
+/**
+ * The matchers added by `expect.extend(matchers)`. Declare them on vitest's `Assertion` to type them, see the README.
+ *
+ * @template R - The return type of the assertion.
+ */
+export interface MaybeMatchers<R = unknown> {
+  /** Passes when the result succeeded, and its value equals `value` when one is given. */
+  toBeOk(value?: unknown): R;
+  /** Passes when the result failed, with an error of the given kind when one is given. */
+  toBeErr(kind?: MaybeError['kind']): R;
+  /** Passes when the result failed validation at the dotted path, with the given issue code when one is given. */
+  toFailAt(path: string, code?: z.ZodIssueCode): R;
+}
+
+type MatcherContext = {
+  isNot: boolean;
+  equals(a: unknown, b: unknown): boolean;
+};
+
+type MatcherResult = { pass: boolean; message: () => string };
+
+type Inspected = { ok: boolean; value: unknown; kind?: string; issues: z.ZodIssue[]; message?: string };
+
+const show = (value: unknown) => {
+  try {
+    return JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? `${item}n` : item)) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+/**
+ * Reads a `[error, result]` tuple, with a MaybeError or a legacy error string.
+ */
+const inspect = (received: unknown): Inspected | undefined => {
+  if (!Array.isArray(received) || received.length !== 2) return undefined;
+  const [error, value] = received;
+
+  if (error === null) return { ok: true, value, issues: [] };
+  // Duck-typed: a test may load the CommonJS build while the code under test loads the ES module one (or another
+  // copy of the package), each with its own MaybeError class.
+  if (error instanceof Error && 'kind' in error && Array.isArray((error as MaybeError).issues)) {
+    const { kind, issues, message } = error as MaybeError;
+    return { ok: false, value, kind, issues, message };
+  }
+  if (typeof error === 'string') {
+    try {
+      const issues = JSON.parse(error);
+      if (Array.isArray(issues)) return { ok: false, value, kind: 'validation', issues, message: error };
+    } catch {}
+    return { ok: false, value, issues: [], message: error };
+  }
+  return undefined;
+};
+
+const notATuple = (received: unknown): MatcherResult => ({
+  pass: false,
+  message: () => `expected an [error, result] tuple, received ${show(received)}`
+});
+
+const describeFailure = ({ kind, issues, message }: Inspected) =>
+  issues.length
+    ? `a ${kind} error with issues:\n${issues.map((issue) => `  ${formatPath(issue.path) || '(root)'}: ${issue.code} ${issue.message}`).join('\n')}`
+    : `a ${kind ?? 'legacy'} error: ${message}`;
+
+/**
+ * Matchers for the results of Maybe validators, to register with `expect.extend(matchers)`. Await the result of
+ * async validators first, or use `.resolves`.
+ */
+export const matchers = {
+  toBeOk(this: MatcherContext, received: unknown, ...expected: [value?: unknown]): MatcherResult {
+    const result = inspect(received);
+    if (!result) return notATuple(received);
+
+    const hasValue = expected.length > 0;
+    const pass = result.ok && (!hasValue || this.equals(result.value, expected[0]));
+
+    return {
+      pass,
+      message: () => {
+        const wanted = hasValue ? `an ok result equal to ${show(expected[0])}` : 'an ok result';
+        if (this.isNot) return `expected the result not to be ${wanted}`;
+        return result.ok ? `expected ${wanted}, received ${show(result.value)}` : `expected ${wanted}, received ${describeFailure(result)}`;
+      }
+    };
+  },
+
+  toBeErr(this: MatcherContext, received: unknown, kind?: MaybeError['kind']): MatcherResult {
+    const result = inspect(received);
+    if (!result) return notATuple(received);
+
+    const pass = !result.ok && (kind === undefined || result.kind === kind);
+
+    return {
+      pass,
+      message: () => {
+        const wanted = kind ? `a ${kind} error` : 'an error';
+        if (this.isNot) return `expected the result not to be ${wanted}, received ${describeFailure(result)}`;
+        return result.ok ? `expected ${wanted}, received an ok result ${show(result.value)}` : `expected ${wanted}, received ${describeFailure(result)}`;
+      }
+    };
+  },
+
+  toFailAt(this: MatcherContext, received: unknown, path: string, code?: z.ZodIssueCode): MatcherResult {
+    const result = inspect(received);
+    if (!result) return notATuple(received);
+
+    const pass = result.issues.some((issue) => formatPath(issue.path) === path && (code === undefined || issue.code === code));
+
+    return {
+      pass,
+      message: () => {
+        const wanted = `a failure at ${path || '(root)'}${code ? ` with code ${code}` : ''}`;
+        if (this.isNot) return `expected the result not to have ${wanted}, received ${describeFailure(result)}`;
+        return result.ok ? `expected ${wanted}, received an ok result ${show(result.value)}` : `expected ${wanted}, received ${describeFailure(result)}`;
+      }
+    };
+  }
+};
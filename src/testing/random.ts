@@ -0,0 +1,40 @@
+/**
+ * A seeded pseudo-random generator: the same seed always yields the same sequence.
+ */
+export type Random = {
+  /** A float in [0, 1). */
+  next(): number;
+  /** An integer in [min, max]. */
+  int(min: number, max: number): number;
+  /** Whether an event of the given probability happens. */
+  chance(probability: number): boolean;
+  /** One of the items. */
+  pick<T>(items: readonly T[]): T;
+};
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32).
+ *
+ * @param {number} [seed] - The seed of the sequence.
+ * @returns {Random} - The generator.
+ */
+export const createRandom = (seed = 1): Random => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min;
+
+  return {
+    next,
+    int,
+    chance: (probability) => next() < probability,
+    pick: (items) => items[int(0, items.length - 1)]!
+  };
+};
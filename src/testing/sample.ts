@@ -0,0 +1,354 @@
+import { z } from "zod";
+import { formatPath } from "../errors";
+import { unwrap } from "../input";
+import { then } from "../settle";
+import { createRandom, type Random } from "./random";
+
+type Segment = string | number;
+
+/**
+ * Options of the sample generators.
+ *
+ * @property {number} [seed] - The seed of the random generator. The same seed always yields the same samples.
+ * @property {Record<string, unknown>} [overrides] - Values (or functions of the random generator returning them) to
+ * use at given dotted paths, `*` matching any array index or record key. Useful for refinements and regexes.
+ * @property {number} [maxAttempts] - How many samples are generated before giving up on a schema whose
+ * refinements keep rejecting them.
+ */
+export type SampleOptions = {
+  seed?: number;
+  overrides?: Record<string, unknown>;
+  maxAttempts?: number;
+};
+
+/**
+ * An input failing validation at a known path.
+ *
+ * @property {string} path - The dotted path of the field made invalid.
+ * @property {unknown} input - The whole input, valid except at `path`.
+ * @property {z.ZodIssue[]} issues - The issues the schema reports for the input.
+ */
+export type InvalidSample = {
+  path: string;
+  input: unknown;
+  issues: z.ZodIssue[];
+};
+
+type Context = {
+  random: Random;
+  path: Segment[];
+  depth: number;
+  overrides: [pattern: Segment[], value: unknown][];
+};
+
+const MISSING = Symbol('missing');
+
+const MAX_DEPTH = 4;
+
+const letters = 'abcdefghijklmnopqrstuvwxyz';
+
+const word = (random: Random, min: number, max: number) =>
+  Array.from({ length: random.int(min, max) }, () => random.pick([...letters])).join('');
+
+const hex = (random: Random, length: number) => Array.from({ length }, () => random.int(0, 15).toString(16)).join('');
+
+const matches = (pattern: Segment[], path: Segment[]) =>
+  pattern.length === path.length && pattern.every((segment, index) => segment === '*' || String(segment) === String(path[index]));
+
+const randomDate = (random: Random, min = Date.UTC(2000, 0, 1), max = Date.UTC(2030, 11, 31)) =>
+  new Date(Math.floor(min + random.next() * (max - min)));
+
+const generateString = (schema: z.ZodString, { random }: Context): string => {
+  const checks = schema._def.checks;
+  const check = <K extends z.ZodStringCheck['kind']>(kind: K) =>
+    checks.find((item): item is Extract<z.ZodStringCheck, { kind: K }> => item.kind === kind);
+
+  const length = check('length')?.value;
+  const min = length ?? check('min')?.value ?? 1;
+  const max = length ?? check('max')?.value ?? Math.max(min, 12);
+
+  let value =
+    check('email') ? `${word(random, 3, 8)}@example.com`
+    : check('url') ? `https://example.com/${word(random, 3, 8)}`
+    : check('uuid') ? `${hex(random, 8)}-${hex(random, 4)}-4${hex(random, 3)}-${random.pick(['8', '9', 'a', 'b'])}${hex(random, 3)}-${hex(random, 12)}`
+    : check('datetime') ? randomDate(random).toISOString()
+    : check('date') ? randomDate(random).toISOString().slice(0, 10)
+    : check('time') ? randomDate(random).toISOString().slice(11, 19)
+    : check('ip') ? Array.from({ length: 4 }, () => random.int(1, 254)).join('.')
+    : check('cuid') ? `c${word(random, 24, 24)}`
+    : word(random, Math.min(min, max), Math.min(max, min + 12));
+
+  const includes = check('includes')?.value;
+  const startsWith = check('startsWith')?.value;
+  const endsWith = check('endsWith')?.value;
+  if (includes && !value.includes(includes)) value += includes;
+  if (startsWith) value = startsWith + value;
+  if (endsWith) value += endsWith;
+  if (check('toUpperCase')) value = value.toUpperCase();
+
+  return value;
+};
+
+const generateNumber = (schema: z.ZodNumber, { random }: Context): number => {
+  const checks = schema._def.checks;
+  const isInt = checks.some((check) => check.kind === 'int');
+  const step = checks.find((check) => check.kind === 'multipleOf')?.value ?? (isInt ? 1 : undefined);
+
+  let min = -1000;
+  let max = 1000;
+  for (const check of checks) {
+    const margin = check.kind === 'min' || check.kind === 'max' ? (check.inclusive ? 0 : step ?? 0.001) : 0;
+    if (check.kind === 'min') min = check.value + margin;
+    if (check.kind === 'max') max = check.value - margin;
+  }
+  if (!checks.some((check) => check.kind === 'min') && max < min) min = max - 1000;
+  if (!checks.some((check) => check.kind === 'max') && max < min) max = min + 1000;
+
+  if (step === undefined) return Math.round((min + random.next() * (max - min)) * 1000) / 1000;
+  return random.int(Math.ceil(min / step), Math.floor(max / step)) * step;
+};
+
+const generateArray = (element: z.ZodTypeAny, context: Context, min = 0, max = min + 3): unknown[] => {
+  const length = context.depth >= MAX_DEPTH ? min : context.random.int(min, max);
+  return Array.from({ length }, (_, index) => generate(element, context, index));
+};
+
+const anyValue = (random: Random): unknown => random.pick([null, true, random.int(0, 100), word(random, 3, 8)]);
+
+const generateSchema = (schema: z.ZodTypeAny, context: Context): unknown => {
+  const { random } = context;
+
+  if (schema instanceof z.ZodString) return generateString(schema, context);
+  if (schema instanceof z.ZodNumber) return generateNumber(schema, context);
+  if (schema instanceof z.ZodBigInt) return BigInt(random.int(0, 1000));
+  if (schema instanceof z.ZodBoolean) return random.chance(0.5);
+  if (schema instanceof z.ZodDate) {
+    const min = schema.minDate?.getTime();
+    const max = schema.maxDate?.getTime();
+    return randomDate(random, min, max ?? (min === undefined ? undefined : min + 365 * 24 * 3600 * 1000));
+  }
+  if (schema instanceof z.ZodLiteral) return schema.value;
+  if (schema instanceof z.ZodEnum) return random.pick(schema.options as string[]);
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.entries(schema.enum as Record<string, string | number>).filter(([key]) => !/^\d+$/.test(key));
+    return random.pick(values)[1];
+  }
+  if (schema instanceof z.ZodNull) return null;
+  if (schema instanceof z.ZodUndefined || schema instanceof z.ZodVoid) return undefined;
+  if (schema instanceof z.ZodNaN) return NaN;
+  if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) return anyValue(random);
+  if (schema instanceof z.ZodNever) throw new Error(`Cannot generate a value for ${formatPath(context.path) || 'the input'}: its schema is never`);
+
+  if (schema instanceof z.ZodObject) {
+    const entries = Object.entries(schema.shape as Record<string, z.ZodTypeAny>)
+      .map(([key, field]) => [key, generate(field, context, key)] as const)
+      .filter(([, value]) => value !== MISSING);
+    return Object.fromEntries(entries);
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength, exactLength } = schema._def;
+    const min = exactLength?.value ?? minLength?.value ?? 0;
+    return generateArray(schema.element, context, min, exactLength?.value ?? maxLength?.value ?? min + 3);
+  }
+  if (schema instanceof z.ZodTuple) {
+    return [
+      ...schema.items.map((item: z.ZodTypeAny, index: number) => generate(item, context, index)),
+      ...(schema._def.rest ? generateArray(schema._def.rest, context, 0, 2) : [])
+    ];
+  }
+  if (schema instanceof z.ZodSet) return new Set(generateArray(schema._def.valueType, context, schema._def.minSize?.value ?? 0));
+  if (schema instanceof z.ZodRecord || schema instanceof z.ZodMap) {
+    const keys = generateArray(schema._def.keyType, { ...context, path: [...context.path, '*'] });
+    const entries = keys.map((key) => [key, generate(schema._def.valueType, context, String(key))] as const);
+    return schema instanceof z.ZodMap ? new Map(entries) : Object.fromEntries(entries);
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return generateSchema(random.pick(schema.options as z.ZodTypeAny[]), context);
+  }
+  if (schema instanceof z.ZodIntersection) {
+    const left = generateSchema(schema._def.left, context);
+    const right = generateSchema(schema._def.right, context);
+    return typeof left === 'object' && left !== null && typeof right === 'object' && right !== null ? { ...left, ...right } : left;
+  }
+  if (schema instanceof z.ZodOptional) return random.chance(0.2) ? MISSING : generateSchema(schema.unwrap(), context);
+  if (schema instanceof z.ZodNullable) return random.chance(0.2) ? null : generateSchema(schema.unwrap(), context);
+  if (schema instanceof z.ZodDefault) return random.chance(0.2) ? MISSING : generateSchema(schema._def.innerType, context);
+  if (schema instanceof z.ZodPromise) return Promise.resolve(generateSchema(schema.unwrap(), context));
+  if (schema instanceof z.ZodLazy) return generateSchema(schema.schema, { ...context, depth: context.depth + 1 });
+
+  // Effects, pipelines, brands, catches and readonly schemas accept what their inner schema accepts.
+  const inner = unwrap(schema);
+  if (inner !== schema) return generateSchema(inner, context);
+
+  throw new Error(`Cannot generate a value for ${formatPath(context.path) || 'the input'}: unsupported schema ${schema.constructor.name}`);
+};
+
+function generate(schema: z.ZodTypeAny, context: Context, segment?: Segment): unknown {
+  const path = segment === undefined ? context.path : [...context.path, segment];
+  const override = context.overrides.find(([pattern]) => matches(pattern, path));
+  if (override) return typeof override[1] === 'function' ? override[1](context.random) : override[1];
+
+  return generateSchema(schema, { ...context, path, depth: segment === undefined ? context.depth : context.depth + 1 });
+}
+
+const parseOverrides = (overrides: Record<string, unknown>): Context['overrides'] =>
+  Object.entries(overrides).map(([path, value]) => [path === '' ? [] : path.split('.'), value]);
+
+/**
+ * Generates valid inputs for a schema. Samples rejected by refinements are regenerated, up to `maxAttempts` times.
+ *
+ * @template S - The Zod schema.
+ * @param {S} schema - The schema, e.g. the one given to Maybe.
+ * @param {number} count - The number of samples.
+ * @param {SampleOptions} [options] - The seed, overrides and attempts.
+ * @returns {z.input<S>[]} - The samples.
+ */
+export const samples = <S extends z.ZodTypeAny>(schema: S, count: number, { seed = 1, overrides = {}, maxAttempts = 100 }: SampleOptions = {}): z.input<S>[] => {
+  const context: Context = { random: createRandom(seed), path: [], depth: 0, overrides: parseOverrides(overrides) };
+
+  return Array.from({ length: count }, () => {
+    let issues: z.ZodIssue[] = [];
+
+    for (let attempt = 0; attempt < maxAttempts; attempt += 1) {
+      const value = generate(schema, context);
+      const input = value === MISSING ? undefined : value;
+      const result = schema.safeParse(input);
+      if (result.success) return input;
+      issues = result.error.issues;
+    }
+
+    const paths = [...new Set(issues.map((issue) => formatPath(issue.path) || '(root)'))].join(', ');
+    throw new Error(`Could not generate a valid sample after ${maxAttempts} attempts; failing at ${paths}. Pass overrides for these paths.`);
+  });
+};
+
+/**
+ * Generates one valid input for a schema. See `samples`.
+ *
+ * @template S - The Zod schema.
+ * @param {S} schema - The schema, e.g. the one given to Maybe.
+ * @param {SampleOptions} [options] - The seed, overrides and attempts.
+ * @returns {z.input<S>} - The sample.
+ */
+export const sample = <S extends z.ZodTypeAny>(schema: S, options: SampleOptions = {}): z.input<S> => samples(schema, 1, options)[0];
+
+const withValue = (data: unknown, [head, ...rest]: Segment[], value: unknown): unknown => {
+  if (head === undefined) return value;
+  const copy = (Array.isArray(data) ? [...data] : { ...(data as object) }) as Record<Segment, unknown>;
+  if (rest.length || value !== MISSING) copy[head] = withValue(copy[head], rest, value);
+  else delete copy[head];
+  return copy;
+};
+
+/** Values breaking the constraints of a schema rather than its type, e.g. a string one character too short. */
+const violations = (schema: z.ZodTypeAny): unknown[] => {
+  if (schema instanceof z.ZodString) {
+    return schema._def.checks.flatMap((check): unknown[] => {
+      if (check.kind === 'min' && check.value > 0) return ['x'.repeat(check.value - 1)];
+      if (check.kind === 'max' || check.kind === 'length') return ['x'.repeat(check.value + 1)];
+      if (check.kind === 'regex' || check.kind === 'startsWith' || check.kind === 'endsWith' || check.kind === 'includes') return ['%'];
+      return ['email', 'url', 'uuid', 'cuid', 'datetime', 'date', 'time', 'ip'].includes(check.kind) ? ['not-valid'] : [];
+    });
+  }
+  if (schema instanceof z.ZodNumber) {
+    return schema._def.checks.flatMap((check): unknown[] => {
+      if (check.kind === 'min') return [check.value - 1];
+      if (check.kind === 'max') return [check.value + 1];
+      if (check.kind === 'int') return [0.5];
+      return [];
+    });
+  }
+  if (schema instanceof z.ZodEnum || schema instanceof z.ZodNativeEnum || schema instanceof z.ZodLiteral) return ['__invalid__', -1];
+  if (schema instanceof z.ZodArray && schema._def.minLength?.value) return [[]];
+  return [];
+};
+
+const wrongType = (schema: z.ZodTypeAny): unknown[] => {
+  if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) return [];
+  return schema instanceof z.ZodString || schema instanceof z.ZodEnum ? [42] : ['invalid'];
+};
+
+const leaves = (schema: z.ZodTypeAny, value: unknown, path: Segment[] = []): [Segment[], z.ZodTypeAny][] => {
+  const inner = unwrap(schema);
+
+  if (inner instanceof z.ZodObject && typeof value === 'object' && value !== null) {
+    return Object.entries(inner.shape as Record<string, z.ZodTypeAny>).flatMap(([key, field]) => [
+      [[...path, key], field] as [Segment[], z.ZodTypeAny],
+      ...leaves(field, (value as Record<string, unknown>)[key], [...path, key])
+    ]);
+  }
+  if (inner instanceof z.ZodArray && Array.isArray(value)) {
+    return value.flatMap((item, index) => [[[...path, index], inner.element] as [Segment[], z.ZodTypeAny], ...leaves(inner.element, item, [...path, index])]);
+  }
+  return [];
+};
+
+/**
+ * Generates inputs that fail validation at a single known field each: a valid sample with one field missing, of the
+ * wrong type, or breaking one of its constraints. Use them to check a validator rejects what it should.
+ *
+ * @template S - The Zod schema.
+ * @param {S} schema - The schema, e.g. the one given to Maybe.
+ * @param {SampleOptions} [options] - The seed, overrides and attempts used for the valid base sample.
+ * @returns {InvalidSample[]} - The invalid inputs, with the path made invalid and the resulting issues.
+ */
+export const invalidSamples = <S extends z.ZodTypeAny>(schema: S, options: SampleOptions = {}): InvalidSample[] => {
+  const base = sample(schema, options);
+  const found = new Map<string, InvalidSample>();
+
+  for (const [path, field] of leaves(schema, base)) {
+    const inner = unwrap(field);
+    const candidates = [...(field.isOptional() ? [] : [MISSING]), ...violations(inner), ...wrongType(inner)];
+
+    for (const candidate of candidates) {
+      const input = withValue(base, path, candidate);
+      const result = schema.safeParse(input);
+      if (result.success) continue;
+
+      const dotted = formatPath(path);
+      const issues = result.error.issues;
+      const issue = issues.find((item) => formatPath(item.path) === dotted);
+      if (issue && !found.has(`${dotted} ${issue.code}`)) found.set(`${dotted} ${issue.code}`, { path: dotted, input, issues });
+    }
+  }
+
+  return [...found.values()];
+};
+
+/**
+ * Checks a property against generated samples, property-based testing style. When it throws (or rejects), the error
+ * is rethrown with the failing sample and the seed that reproduces it. Stays synchronous for synchronous properties.
+ *
+ * @template S - The Zod schema.
+ * @param {S} schema - The schema the samples are generated from.
+ * @param {function} property - Called with each sample; throws when the property does not hold.
+ * @param {SampleOptions & { runs?: number }} [options] - The number of runs (100 by default), seed and overrides.
+ * @returns {void | Promise<void>} - Resolves once every sample passed.
+ */
+export const forAll = <S extends z.ZodTypeAny>(
+  schema: S,
+  property: (input: z.input<S>, run: number) => void | Promise<void>,
+  { runs = 100, ...options }: SampleOptions & { runs?: number } = {}
+): void | Promise<void> => {
+  const inputs = samples(schema, runs, options);
+
+  const fail = (run: number, error: unknown): never => {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Property failed on run ${run + 1} (seed ${options.seed ?? 1}) with ${JSON.stringify(inputs[run], (_, value) => (typeof value === 'bigint' ? `${value}n` : value))}: ${reason}`, { cause: error });
+  };
+
+  const check = (run: number): void | Promise<void> => {
+    if (run >= inputs.length) return;
+
+    let outcome: void | Promise<void>;
+    try {
+      outcome = property(inputs[run], run);
+    } catch (error) {
+      return fail(run, error);
+    }
+
+    return then(outcome instanceof Promise ? outcome.catch((error) => fail(run, error)) : outcome, () => check(run + 1));
+  };
+
+  return check(0);
+};
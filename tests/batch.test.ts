@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'vitest';
+import { Maybe, AsyncMaybe, batch, asyncBatch } from '../src';
+import { z } from "zod";
+
+const recordSchema = z.object({
+  sku: z.string().min(3),
+  qty: z.number().int().positive()
+});
+
+type StockRecord = z.infer<typeof recordSchema>;
+
+const records = [
+  { sku: 'ABC-1', qty: 2 },
+  { sku: 'X', qty: 1 },
+  { sku: 'DEF-2', qty: 0 },
+  { sku: 'Y', qty: 5 }
+];
+
+describe('batch - Synchronous Batches', () => {
+  test('returns per-index results and a summary', () => {
+    const { results, summary } = batch(records, Maybe((record: StockRecord) => record.sku, recordSchema));
+
+    expect(results.map(({ index, result }) => [index, result])).toEqual([
+      [0, 'ABC-1'],
+      [1, null],
+      [2, null],
+      [3, null]
+    ]);
+    expect(summary).toEqual({
+      total: 4,
+      valid: 1,
+      invalid: 3,
+      skipped: 0,
+      failures: [
+        { path: 'sku', message: 'String must contain at least 3 character(s)', count: 2, indexes: [1, 3] },
+        { path: 'qty', message: 'Number must be greater than 0', count: 1, indexes: [2] }
+      ]
+    });
+  });
+
+  test('accepts any iterable', () => {
+    const { summary } = batch(new Set(records.slice(0, 1)), Maybe((record: StockRecord) => record, recordSchema));
+
+    expect(summary.valid).toBe(1);
+  });
+
+  test('stops at the first failure with failFast', () => {
+    const { results, summary } = batch(records, Maybe((record: StockRecord) => record, recordSchema), { failFast: true });
+
+    expect(results).toHaveLength(2);
+    expect(summary.skipped).toBe(2);
+  });
+});
+
+describe('asyncBatch - Asynchronous Batches', () => {
+  test('bounds the number of concurrent validations', async () => {
+    let running = 0;
+    let peak = 0;
+    const validate = AsyncMaybe(async (record: StockRecord) => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running -= 1;
+      return record.qty;
+    }, z.object({ sku: z.string(), qty: z.number() }));
+
+    const { results, summary } = await asyncBatch(records, validate, { concurrency: 2 });
+
+    expect(peak).toBe(2);
+    expect(results.map(({ result }) => result)).toEqual([2, 1, 0, 5]);
+    expect(summary.valid).toBe(4);
+  });
+
+  test('stops starting new validations after a failure with failFast', async () => {
+    const { summary } = await asyncBatch(records, AsyncMaybe((record: StockRecord) => record, recordSchema), {
+      concurrency: 1,
+      failFast: true
+    });
+
+    expect(summary).toMatchObject({ valid: 1, invalid: 1, skipped: 2 });
+  });
+
+  test('groups non validation errors under the root path', async () => {
+    const validate = AsyncMaybe(() => {
+      throw new Error('Database unavailable');
+    }, recordSchema);
+
+    const { summary } = await asyncBatch(records.slice(0, 1), validate);
+
+    expect(summary.failures).toEqual([{ path: '', message: 'Database unavailable', count: 1, indexes: [0] }]);
+  });
+});
@@ -0,0 +1,123 @@
+import { afterAll, describe, expect, test } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli, type CliRejection } from '../src/cli';
+
+const dir = mkdtempSync(join(tmpdir(), 'maybe-zod-cli-'));
+const contracts = join(import.meta.dir, 'fixtures/contracts.ts');
+
+const fixture = (name: string, content: string) => {
+  const path = join(dir, name);
+  writeFileSync(path, content);
+  return path;
+};
+
+const run = async (args: string[], stdin: string[] = []) => {
+  const output = { stdout: '', stderr: '' };
+  const code = await runCli(args, {
+    stdin: (async function* () {
+      yield* stdin;
+    })(),
+    stdout: { write: (text) => (output.stdout += text) },
+    stderr: { write: (text) => (output.stderr += text) },
+    cwd: dir
+  });
+  return { code, ...output };
+};
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const ada = { name: 'Ada', email: 'ada@example.com', age: 36 };
+
+describe('maybe-zod CLI', () => {
+  test('exits with 0 when every record is valid', async () => {
+    const file = fixture('valid.ndjson', `${JSON.stringify(ada)}\n${JSON.stringify({ ...ada, name: 'Grace' })}\n`);
+
+    const { code, stdout } = await run([contracts, 'userSchema', file]);
+
+    expect(code).toBe(0);
+    expect(stdout).toBe('2 records: 2 valid, 0 invalid\n');
+  });
+
+  test('prints per-record paths and messages, and exits with 1', async () => {
+    const file = fixture('users.ndjson', [JSON.stringify(ada), JSON.stringify({ ...ada, email: 'nope', age: -1 }), '{oops'].join('\n'));
+
+    const { code, stdout } = await run([contracts, 'userSchema', file]);
+
+    expect(code).toBe(1);
+    expect(stdout).toBe(
+      [
+        `${file}:2`,
+        '  email: Invalid email',
+        '  age: Number must be greater than 0',
+        `${file}:3`,
+        '  Invalid JSON on line 3',
+        '',
+        '3 records: 1 valid, 2 invalid',
+        ''
+      ].join('\n')
+    );
+  });
+
+  test('validates JSON arrays with a Maybe validator and prints a JSON report', async () => {
+    const file = fixture('users.json', JSON.stringify([{ ...ada, password: 'correct horse' }, { ...ada, password: 'short' }]));
+
+    const { code, stdout } = await run([contracts, 'validateUser', file, '--report', 'json']);
+    const report = JSON.parse(stdout) as { total: number; invalid: number; rejections: CliRejection[] };
+
+    expect(code).toBe(1);
+    expect(report).toMatchObject({ total: 2, valid: 1, invalid: 1 });
+    expect(report.rejections).toEqual([
+      {
+        file,
+        line: 2,
+        kind: 'validation',
+        message: 'password: String must contain at least 8 character(s)',
+        issues: [{ path: 'password', code: 'too_small', message: 'String must contain at least 8 character(s)' }]
+      }
+    ]);
+  });
+
+  test('coerces CSV cells with the schema and writes the rejected records', async () => {
+    const file = fixture('users.csv', 'name,email,age\nAda,ada@example.com,36\n"Lovelace, A",nope,12\nGrace,grace@example.com,x\n');
+    const rejects = join(dir, 'rejects.csv');
+
+    const { code, stdout } = await run([contracts, 'userSchema', file, '--rejects', 'rejects.csv']);
+
+    expect(code).toBe(1);
+    expect(stdout).toContain(`${file}:3\n  email: Invalid email\n${file}:4\n  age: Expected number, received nan`);
+    expect(readFileSync(rejects, 'utf8')).toBe('name,email,age\n"Lovelace, A",nope,12\nGrace,grace@example.com,x\n');
+  });
+
+  test('rejects a CSV row whose quoted cell is never closed', async () => {
+    const file = fixture('unclosed.csv', 'name,email,age\nAda,ada@example.com,36\nGrace,"grace@example.com,37\nLin,lin@example.com,41\n');
+
+    const { code, stdout } = await run([contracts, 'userSchema', file]);
+
+    expect(code).toBe(1);
+    expect(stdout).toBe(`${file}:3\n  Invalid CSV: a quoted cell is never closed\n\n2 records: 1 valid, 1 invalid\n`);
+  });
+
+  test('reads stdin', async () => {
+    const { code, stdout } = await run([contracts, 'userSchema', '--format', 'json'], ['[', JSON.stringify(ada), ']']);
+
+    expect(code).toBe(0);
+    expect(stdout).toBe('1 record: 1 valid, 0 invalid\n');
+  });
+
+  test('exits with 2 on usage and loading errors', async () => {
+    expect((await run([contracts])).code).toBe(2);
+    expect((await run([contracts, 'missing'])).stderr).toContain('has no schema or validator exported as "missing"');
+    expect((await run([contracts, 'notAValidator'], ['{}'])).stderr).toContain('"notAValidator" is not a Maybe validator');
+    expect((await run([contracts, 'userSchema', 'missing.ndjson'])).stderr).toContain('Cannot read missing.ndjson');
+    expect((await run([contracts, 'userSchema', '--format', 'xml'])).code).toBe(2);
+
+    const unwritable = await run([contracts, 'userSchema', '--rejects', 'missing/dir/rejects.ndjson'], [JSON.stringify({})]);
+    expect(unwritable.code).toBe(2);
+    expect(unwritable.stderr).toContain('Cannot write missing/dir/rejects.ndjson');
+    expect((await run(['--help'])).stdout).toContain('Usage: maybe-zod');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'vitest';
+import { Maybe, AsyncMaybe, all, firstOk } from '../src';
+import { z } from "zod";
+
+const bodySchema = z.object({ email: z.string().email(), name: z.string().min(2) });
+const querySchema = z.object({ page: z.coerce.number().int().positive() });
+const paramsSchema = z.object({ id: z.string().uuid() });
+
+const validateBody = Maybe((body) => body, bodySchema);
+const validateQuery = Maybe((query) => query.page, querySchema);
+const validateParams = AsyncMaybe(async (params) => params.id, paramsSchema);
+
+const id = '123e4567-e89b-12d3-a456-426614174000';
+
+describe('all', () => {
+  test('returns the typed results of every source', () => {
+    const validateRequest = all({ body: validateBody, query: validateQuery });
+
+    const [error, result] = validateRequest({ body: { email: 'a@b.co', name: 'Al' }, query: { page: '2' } });
+    if (error) throw error;
+
+    const page: number = result.query;
+    expect(page).toBe(2);
+    expect(result.body).toEqual({ email: 'a@b.co', name: 'Al' });
+  });
+
+  test('collects every error prefixed with its source', () => {
+    const validateRequest = all({ body: validateBody, query: validateQuery });
+
+    const [error, result] = validateRequest({ body: { email: 'nope', name: 'Al' }, query: { page: '0' } });
+
+    expect(result).toBeNull();
+    expect(error!.kind).toBe('validation');
+    expect(error!.fieldErrors).toEqual({
+      'body.email': ['Invalid email'],
+      'query.page': ['Number must be greater than 0']
+    });
+    expect(error!.message).toBe('body.email: Invalid email\nquery.page: Number must be greater than 0');
+  });
+
+  test('runs async validators in parallel', async () => {
+    const validateRequest = all({ body: validateBody, params: validateParams });
+
+    const pending = validateRequest({ body: { email: 'a@b.co', name: 'Al' }, params: { id } });
+    expect(pending).toBeInstanceOf(Promise);
+
+    expect((await pending).unwrap()).toEqual({ body: { email: 'a@b.co', name: 'Al' }, params: id });
+  });
+
+  test('accepts a tuple of validators', () => {
+    const [error, result] = all([validateQuery, validateQuery])([{ page: '1' }, { page: 'x' }]);
+
+    expect(result).toBeNull();
+    expect(Object.keys(error!.fieldErrors)).toEqual(['1.page']);
+  });
+
+  test('keeps the kind of non validation failures', async () => {
+    const failing = AsyncMaybe(() => {
+      throw new Error('boom');
+    }, z.unknown());
+
+    const [error] = await all({ body: validateBody, lookup: failing })({ body: {}, lookup: 1 });
+
+    expect(error!.kind).toBe('processor-threw');
+    expect(error!.message).toContain('lookup: boom');
+  });
+});
+
+describe('firstOk', () => {
+  const v2Schema = z.object({ version: z.literal(2), fullName: z.string() });
+  const v1Schema = z.object({ name: z.string() });
+  const validatePayload = firstOk({
+    v2: Maybe((payload) => payload.fullName, v2Schema),
+    v1: Maybe((payload) => payload.name, v1Schema)
+  });
+
+  test('returns the first validator that succeeds', () => {
+    expect(validatePayload({ version: 2, fullName: 'Ada Lovelace' }).unwrap()).toEqual({ source: 'v2', result: 'Ada Lovelace' });
+    expect(validatePayload({ name: 'Ada' }).unwrap()).toEqual({ source: 'v1', result: 'Ada' });
+  });
+
+  test('combines the errors when every validator fails', () => {
+    const [error] = validatePayload({});
+
+    expect(Object.keys(error!.fieldErrors)).toEqual(['v2.version', 'v2.fullName', 'v1.name']);
+  });
+
+  test('does not run later validators after a success', async () => {
+    let called = false;
+    const validate = firstOk([
+      AsyncMaybe((value) => value, z.string()),
+      AsyncMaybe((value) => {
+        called = true;
+        return value;
+      }, z.unknown())
+    ]);
+
+    const [error, result] = await validate('ok');
+
+    expect(error).toBeNull();
+    expect(result).toEqual({ source: 0, result: 'ok' });
+    expect(called).toBe(false);
+  });
+});
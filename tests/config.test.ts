@@ -0,0 +1,113 @@
+import { afterAll, describe, expect, test } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfig } from '../src/config';
+import { z } from "zod";
+
+const dir = mkdtempSync(join(tmpdir(), 'maybe-zod-config-'));
+
+const fixture = (name: string, content: string) => {
+  writeFileSync(join(dir, name), content);
+  return name;
+};
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const schema = z.object({
+  PORT: z.number().int().default(3000),
+  DEBUG: z.boolean().default(false),
+  DATABASE_URL: z.string().url().transform((value) => new URL(value)),
+  ALLOWED_ORIGINS: z.array(z.string().url()).default([]),
+  DB: z.object({ HOST: z.string(), POOL: z.number().min(1) }).optional()
+});
+
+describe('loadConfig', () => {
+  test('coerces variables to the types of the schema', () => {
+    const [error, config] = loadConfig(schema, {
+      env: {
+        PORT: '8080',
+        DEBUG: 'true',
+        DATABASE_URL: 'postgres://localhost:5432/app',
+        ALLOWED_ORIGINS: 'https://a.example.com, https://b.example.com',
+        DB__HOST: 'db.internal',
+        DB__POOL: '10',
+        UNRELATED: 'ignored'
+      }
+    });
+
+    expect(error).toBeNull();
+    expect(config).toEqual({
+      PORT: 8080,
+      DEBUG: true,
+      DATABASE_URL: new URL('postgres://localhost:5432/app'),
+      ALLOWED_ORIGINS: ['https://a.example.com', 'https://b.example.com'],
+      DB: { HOST: 'db.internal', POOL: 10 }
+    });
+  });
+
+  test('returns a deeply frozen config', () => {
+    const config = loadConfig(schema, { env: { DATABASE_URL: 'https://db.example.com', DB__HOST: 'db', DB__POOL: '2' } }).unwrap();
+
+    expect(Object.isFrozen(config)).toBe(true);
+    expect(Object.isFrozen(config.DB)).toBe(true);
+    expect(Object.isFrozen(config.ALLOWED_ORIGINS)).toBe(true);
+    expect(() => {
+      (config as { PORT: number }).PORT = 1;
+    }).toThrow();
+  });
+
+  test('reads files in order of precedence, then the environment', () => {
+    const json = fixture('config.json', JSON.stringify({ PORT: 4000, DB: { HOST: 'from-json', POOL: 5 } }));
+    const dotenv = fixture('.env', [
+      '# Local settings',
+      'export DATABASE_URL="https://db.example.com"',
+      "DB__HOST='from-dotenv' # overrides config.json",
+      'DEBUG=yes'
+    ].join('\n'));
+
+    const [error, config] = loadConfig(schema, { files: [json, dotenv, '.env.missing'], env: { PORT: '5000' }, cwd: dir });
+
+    expect(error).toBeNull();
+    expect(config).toMatchObject({ PORT: 5000, DEBUG: true, DB: { HOST: 'from-dotenv', POOL: 5 } });
+    expect(config!.DATABASE_URL.hostname).toBe('db.example.com');
+  });
+
+  test('reads prefixed variables only', () => {
+    const [error, config] = loadConfig(schema, {
+      env: { APP_DATABASE_URL: 'https://db.example.com', APP_PORT: '81', PORT: '82' },
+      prefix: 'APP_'
+    });
+
+    expect(error).toBeNull();
+    expect(config!.PORT).toBe(81);
+  });
+
+  test('reports every missing and invalid variable in one table', () => {
+    const json = fixture('invalid.json', JSON.stringify({ DB: { HOST: 'db', POOL: 0 } }));
+
+    const [error, config] = loadConfig(schema, { files: [json], env: { PORT: 'eighty', DEBUG: '' }, cwd: dir });
+
+    expect(config).toBeNull();
+    expect(error!.kind).toBe('validation');
+    expect(error!.fieldErrors).toHaveProperty('DATABASE_URL');
+    expect(error!.message).toBe([
+      'Invalid configuration, 3 problems:',
+      '  Variable      Source        Problem',
+      '  PORT          env           Expected number, received nan',
+      '  DATABASE_URL  unset         Required',
+      '  DB__POOL      invalid.json  Number must be greater than or equal to 1'
+    ].join('\n'));
+  });
+
+  test('fails with a parse error on unreadable files', () => {
+    const broken = fixture('broken.json', '{ "PORT": ');
+
+    const [error] = loadConfig(schema, { files: [broken], env: {}, cwd: dir });
+
+    expect(error!.kind).toBe('parse');
+    expect(error!.message).toMatch(/^Cannot read broken\.json:/);
+  });
+});
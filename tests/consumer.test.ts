@@ -0,0 +1,133 @@
+import { describe, expect, test } from 'vitest';
+import { AsyncMaybe, Maybe, createConsumer, createMemoryTransport, exponentialBackoff } from '../src';
+import { z } from "zod";
+
+const orderSchema = z.object({
+  id: z.string(),
+  quantity: z.number().int().positive()
+});
+
+const noDelay = () => 0;
+
+describe('Message consumer', () => {
+  test('acks valid messages once processed', async () => {
+    const transport = createMemoryTransport();
+    const processed: string[] = [];
+    const consume = createConsumer(AsyncMaybe(async (order) => processed.push(order.id), orderSchema), transport);
+
+    transport.publish({ id: 'a', quantity: 1 });
+    transport.publish({ id: 'b', quantity: 2 });
+    await transport.run(consume);
+
+    expect(processed).toEqual(['a', 'b']);
+    expect(transport.acked.map((message) => message.id)).toEqual(['1', '2']);
+    expect(transport.deadLetters).toEqual([]);
+  });
+
+  test('parks invalid messages with their issues, without retrying', async () => {
+    const transport = createMemoryTransport();
+    let calls = 0;
+    const consume = createConsumer(Maybe(() => (calls += 1), orderSchema), transport, { backoff: noDelay });
+
+    const message = transport.publish({ id: 'a', quantity: -1 });
+
+    expect(await consume(message)).toBe('dead-lettered');
+    expect(calls).toBe(0);
+    expect(transport.pending()).toBe(0);
+    expect(transport.acked).toEqual([message]);
+    expect(transport.deadLetters).toEqual([{
+      message,
+      details: expect.objectContaining({
+        reason: 'rejected',
+        kind: 'validation',
+        attempts: 1,
+        fieldErrors: { quantity: ['Number must be greater than 0'] },
+        issues: [expect.objectContaining({ path: ['quantity'], code: 'too_small' })]
+      })
+    }]);
+    expect(JSON.parse(JSON.stringify(transport.deadLetters[0]!.details))).toEqual(transport.deadLetters[0]!.details);
+  });
+
+  test('retries processor failures, then parks the message', async () => {
+    const transport = createMemoryTransport();
+    const delays: number[] = [];
+    const consume = createConsumer(
+      AsyncMaybe(async () => {
+        throw new Error('database unavailable');
+      }, orderSchema),
+      transport,
+      {
+        maxAttempts: 3,
+        backoff: (attempt) => {
+          delays.push(attempt);
+          return 1;
+        }
+      }
+    );
+
+    transport.publish({ id: 'a', quantity: 1 });
+    await transport.run(consume);
+
+    expect(delays).toEqual([1, 2]);
+    expect(transport.deadLetters).toHaveLength(1);
+    expect(transport.deadLetters[0]!.message.attempt).toBe(3);
+    expect(transport.deadLetters[0]!.details).toMatchObject({
+      reason: 'retries-exhausted',
+      kind: 'processor-threw',
+      message: 'database unavailable',
+      attempts: 3
+    });
+  });
+
+  test('acks a message that succeeds on a retry', async () => {
+    const transport = createMemoryTransport();
+    let calls = 0;
+    const consume = createConsumer(
+      AsyncMaybe(async (order) => {
+        calls += 1;
+        if (calls === 1) throw new Error('flaky');
+        return order.id;
+      }, orderSchema),
+      transport,
+      { backoff: noDelay }
+    );
+
+    transport.publish({ id: 'a', quantity: 1 });
+    await transport.run(consume);
+
+    expect(calls).toBe(2);
+    expect(transport.acked).toEqual([expect.objectContaining({ attempt: 2 })]);
+    expect(transport.deadLetters).toEqual([]);
+  });
+
+  test('retries timeouts', async () => {
+    const transport = createMemoryTransport();
+    const consume = createConsumer(
+      AsyncMaybe(() => new Promise((resolve) => setTimeout(resolve, 50)), orderSchema),
+      transport,
+      { timeout: 5, maxAttempts: 2, backoff: noDelay }
+    );
+
+    const outcome = await consume(transport.publish({ id: 'a', quantity: 1 }));
+
+    expect(outcome).toBe('retried');
+  });
+
+  test('parks undecodable bodies as parse failures', async () => {
+    const transport = createMemoryTransport<string>();
+    const consume = createConsumer(Maybe((order) => order.id, orderSchema), transport, { decode: JSON.parse });
+
+    await consume(transport.publish('{"id": "a"'));
+    await consume(transport.publish('{"id": "b", "quantity": 1}'));
+
+    expect(transport.deadLetters.map(({ details }) => details.kind)).toEqual(['parse']);
+    expect(transport.acked).toHaveLength(2);
+  });
+
+  test('computes exponential delays up to a maximum', () => {
+    const backoff = exponentialBackoff({ initial: 100, factor: 3, max: 1000 });
+
+    expect([1, 2, 3, 4].map(backoff)).toEqual([100, 300, 900, 1000]);
+    expect(exponentialBackoff({ jitter: 0.5 })(1)).toBeGreaterThanOrEqual(50);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'vitest';
+import { MaybeWithContext, AsyncMaybeWithContext } from '../src';
+import { z } from "zod";
+
+type Caller = { role: 'admin' | 'member'; currency: 'EUR' | 'USD' };
+
+const userSchema = z.object({
+  name: z.string(),
+  role: z.enum(['admin', 'member']).optional()
+});
+
+const onlyAdminsSetRole = (caller: Caller) =>
+  userSchema.refine((user) => user.role === undefined || caller.role === 'admin', { message: 'Only admins may set role', path: ['role'] });
+
+const admin: Caller = { role: 'admin', currency: 'EUR' };
+const member: Caller = { role: 'member', currency: 'USD' };
+
+describe('Context-aware validators', () => {
+  test('refinements read the context', () => {
+    const updateUser = MaybeWithContext((user) => user, onlyAdminsSetRole);
+
+    expect(updateUser({ name: 'Ada', role: 'admin' }, admin)[0]).toBeNull();
+    expect(updateUser({ name: 'Ada' }, member)[0]).toBeNull();
+
+    const [error] = updateUser({ name: 'Ada', role: 'admin' }, member);
+    expect(error!.fieldErrors).toEqual({ role: ['Only admins may set role'] });
+  });
+
+  test('the processor receives the context', () => {
+    const createInvoice = MaybeWithContext(
+      (invoice, caller: Caller) => ({ ...invoice, currency: caller.currency }),
+      z.object({ amount: z.number().positive() })
+    );
+
+    expect(createInvoice({ amount: 10 }, member)).toEqual([null, { amount: 10, currency: 'USD' }]);
+  });
+
+  test('infers the context type and requires it at the call site', () => {
+    const validate = MaybeWithContext((user, caller) => `${user.name} by ${caller.role}`, onlyAdminsSetRole);
+
+    expect(validate({ name: 'Ada' }, admin).unwrap()).toBe('Ada by admin');
+    // Type checks only
+    // @ts-expect-error the context is required
+    const withoutContext = () => validate({ name: 'Ada' });
+    // @ts-expect-error the context must have the inferred type
+    const wrongContext = () => validate({ name: 'Ada' }, { role: 'guest' });
+    expect([withoutContext, wrongContext]).toHaveLength(2);
+  });
+
+  test('async refinements and processors read the context of their own call', async () => {
+    const checkCurrency = AsyncMaybeWithContext(
+      async (payment, caller) => `${payment.amount} ${caller.currency}`,
+      (caller: Caller) =>
+        z.object({ amount: z.number(), currency: z.string() }).refine(async (payment) => {
+          await new Promise((resolve) => setTimeout(resolve, caller.role === 'admin' ? 5 : 0));
+          return payment.currency === caller.currency;
+        }, { message: 'Currency must match the tenant', path: ['currency'] })
+    );
+
+    const [first, second] = await Promise.all([
+      checkCurrency({ amount: 5, currency: 'EUR' }, admin),
+      checkCurrency({ amount: 7, currency: 'EUR' }, member)
+    ]);
+
+    expect(first).toEqual([null, '5 EUR']);
+    expect(second[0]!.fieldErrors).toEqual({ currency: ['Currency must match the tenant'] });
+  });
+
+  test('returns the error of a schema factory that throws', async () => {
+    const schemaOf = (caller: Caller) => {
+      if (caller.role !== 'admin') throw new Error(`No schema for ${caller.role}`);
+      return userSchema;
+    };
+
+    const [error] = MaybeWithContext((user) => user, schemaOf)({ name: 'Ada' }, member);
+    expect(error!.kind).toBe('validation');
+    expect(error!.message).toBe('No schema for member');
+
+    const pending = AsyncMaybeWithContext(async (user) => user, schemaOf)({ name: 'Ada' }, member);
+    expect((await pending)[0]!.message).toBe('No schema for member');
+  });
+
+  test('keeps the validator options', async () => {
+    const events: string[] = [];
+    const validate = AsyncMaybeWithContext(async (user) => user.name, onlyAdminsSetRole, {
+      name: 'updateUser',
+      onError: ({ name, kind }) => events.push(`${name}:${kind}`)
+    });
+
+    await validate({ name: 'Ada', role: 'admin' }, member, { locale: 'en' });
+
+    expect(events).toEqual(['updateUser:validation']);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'vitest';
+import { Validated, OverrideSchemas, type MaybeResult } from '../src';
+import { z } from "zod";
+
+const userSchema = z.object({
+  name: z.string().min(2),
+  email: z.string().email()
+});
+
+const adminSchema = userSchema.extend({ email: z.string().email().endsWith('@example.com') });
+
+type User = z.output<typeof userSchema> & { id: number };
+
+class UserService {
+  private nextId = 1;
+
+  createUser(input: unknown): MaybeResult<User>;
+  @Validated(userSchema)
+  createUser(user: z.output<typeof userSchema>): any {
+    return { ...user, id: this.nextId++ };
+  }
+
+  saveUser(input: unknown): Promise<MaybeResult<User>>;
+  @Validated(userSchema)
+  async saveUser(user: z.output<typeof userSchema>): Promise<any> {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    return { ...user, id: this.nextId++ };
+  }
+
+  fetchUser(input: unknown): Promise<MaybeResult<User>>;
+  @Validated(z.number().int())
+  fetchUser(id: number): any {
+    return id > 0 ? Promise.resolve({ ...ada, id }) : Promise.reject(new Error(`No user ${id}`));
+  }
+
+  static parseName(input: unknown): MaybeResult<string>;
+  @Validated(z.string().trim().min(1))
+  static parseName(name: string): any {
+    return name;
+  }
+}
+
+@OverrideSchemas({ createUser: adminSchema })
+class AdminService extends UserService {}
+
+class AuditedService extends UserService {}
+
+const ada = { name: 'Ada', email: 'ada@example.com' };
+
+describe('@Validated', () => {
+  test('validates the argument and keeps `this`', () => {
+    const service = new UserService();
+
+    const [error, user] = service.createUser(ada);
+
+    expect(error).toBeNull();
+    expect(user).toEqual({ ...ada, id: 1 });
+    expect(service.createUser(ada)[1]!.id).toBe(2);
+  });
+
+  test('returns validation errors without calling the method', () => {
+    const service = new UserService();
+
+    const [error, user] = service.createUser({ name: 'A', email: 'ada@example.com' });
+
+    expect(user).toBeNull();
+    expect(error!.kind).toBe('validation');
+    expect(Object.keys(error!.fieldErrors)).toEqual(['name']);
+    expect(service.createUser(ada)[1]!.id).toBe(1);
+  });
+
+  test('handles async methods like AsyncMaybe', async () => {
+    const pending = new UserService().saveUser(ada);
+
+    expect(pending).toBeInstanceOf(Promise);
+    expect((await pending).unwrap()).toEqual({ ...ada, id: 1 });
+    expect((await new UserService().saveUser({})).isErr()).toBe(true);
+  });
+
+  test('awaits methods returning a promise', async () => {
+    const service = new UserService();
+
+    expect((await service.fetchUser(7)).unwrap()).toEqual({ ...ada, id: 7 });
+
+    const [error] = await service.fetchUser(-1);
+    expect(error!.kind).toBe('processor-threw');
+    expect(error!.message).toBe('No user -1');
+
+    const invalid = service.fetchUser(1.5);
+    expect(invalid).toBeInstanceOf(Promise);
+    expect((await invalid)[0]!.kind).toBe('validation');
+  });
+
+  test('decorates static methods', () => {
+    expect(UserService.parseName('  Ada ')).toEqual([null, 'Ada']);
+    expect(UserService.parseName('  ')[0]!.kind).toBe('validation');
+  });
+
+  test('subclasses inherit or override the schema', () => {
+    const partner = { name: 'Grace', email: 'grace@partner.org' };
+
+    expect(new AuditedService().createUser(partner).isOk()).toBe(true);
+    expect(new AdminService().createUser(partner).isErr()).toBe(true);
+    expect(new AdminService().createUser(ada).isOk()).toBe(true);
+    expect(new UserService().createUser(partner).isOk()).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+import { execFileSync, spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { createRequire } from 'node:module';
+import { join } from 'node:path';
+import { z } from "zod";
+
+// The published bundles, built once for the file. They resolve zod from node_modules, as in a user's project.
+const root = join(import.meta.dir, '..');
+let dist: typeof import('../src');
+
+beforeAll(async () => {
+  execFileSync('bun', ['run', 'build.ts'], { cwd: root, stdio: 'pipe', timeout: 120_000 });
+  dist = await import(join(root, 'dist/index.js'));
+}, 120_000);
+
+const dir = mkdtempSync(join(tmpdir(), 'maybe-zod-dist-'));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// Runs the published bin the way npm links it: with the `node` on the path.
+const bin = (...args: string[]) => {
+  const { status, stdout, stderr } = spawnSync('node', [join(root, 'bin/maybe-zod.js'), ...args], { cwd: root, encoding: 'utf8', timeout: 30_000 });
+  return { status, stdout, stderr };
+};
+
+const nodeStripsTypes = execFileSync('node', ['-p', 'Boolean(process.features.typescript)'], { encoding: 'utf8' }).trim() === 'true';
+
+describe('Built package', () => {
+  test('masks the sensitive fields of schemas built with the user\'s zod', () => {
+    const schema = z.object({ cvv: dist.sensitive(z.enum(['123', '456'])), pin: z.string() });
+
+    const [error] = dist.Maybe((payment) => payment, schema)({ cvv: '999', pin: 1 });
+
+    expect(error).toBeInstanceOf(dist.MaybeError);
+    expect(error!.issues).toMatchObject([{ path: ['cvv'], received: dist.REDACTED }, { path: ['pin'] }]);
+    expect(error!.toLegacyString()).not.toContain('999');
+  });
+
+  test('accepts a static schema for context-aware validators', () => {
+    const greet = dist.MaybeWithContext((name: string, { greeting }: { greeting: string }) => `${greeting}, ${name}`, z.string());
+
+    expect(greet('Ada', { greeting: 'Hello' })).toEqual([null, 'Hello, Ada']);
+  });
+
+  test('runs the bin under node, coercing CSV cells', () => {
+    const csv = join(dir, 'users.csv');
+    writeFileSync(csv, 'name,email,age\nAda,ada@example.com,36\nGrace,grace@example.com,old\n');
+
+    const { status, stdout } = bin('tests/fixtures/contracts.mjs', 'userSchema', csv);
+
+    expect(stdout).toContain(`${csv}:3\n  age: Expected number, received nan`);
+    expect(stdout).toContain('2 records: 1 valid, 1 invalid');
+    expect(status).toBe(1);
+  });
+
+  test.skipIf(nodeStripsTypes)('explains that TypeScript modules need a newer runtime', () => {
+    const { status, stderr } = bin('tests/fixtures/contracts.ts', 'userSchema');
+
+    expect(stderr).toContain('this Node version cannot load TypeScript modules');
+    expect(status).toBe(2);
+  });
+
+  test('coerces query strings to the types of the user\'s schema', () => {
+    const schema = z.object({ page: z.number(), exact: z.boolean(), sort: z.union([z.number(), z.literal('recent')]) });
+
+    expect(dist.fromSearchParams('page=2&exact=on&sort=3', schema)).toEqual({ page: 2, exact: true, sort: 3 });
+  });
+
+  test('converts the user\'s schemas to JSON Schema', () => {
+    expect(dist.toJsonSchema(z.object({ host: z.string().ip({ version: 'v6' }) }))).toEqual({
+      type: 'object',
+      properties: { host: { type: 'string', format: 'ipv6' } },
+      required: ['host']
+    });
+  });
+
+  test('shares the core with the config entry point', async () => {
+    const { loadConfig } = await import(join(root, 'dist/config.js'));
+    const schema = z.object({ PORT: z.number(), DB: z.object({ HOST: z.string() }) });
+
+    expect(loadConfig(schema, { env: { PORT: '8080', DB__HOST: 'db' } }).unwrap()).toEqual({ PORT: 8080, DB: { HOST: 'db' } });
+
+    const [error] = loadConfig(schema, { env: {} });
+    expect(error).toBeInstanceOf(dist.MaybeError);
+    expect(error!.fieldErrors).toEqual({ PORT: ['Required'], DB: ['Required'] });
+  });
+
+  test('shares the core between the CommonJS entry points', () => {
+    // CommonJS users build their schemas with zod's CommonJS build too.
+    const require = createRequire(import.meta.url);
+    const { z: cjsZod } = require('zod') as { z: typeof z };
+    const core = require(join(root, 'dist/index.cjs'));
+    const { loadConfig } = require(join(root, 'dist/config.cjs'));
+
+    const [error] = loadConfig(cjsZod.object({ PORT: cjsZod.number() }), { env: { PORT: 'eighty' } });
+    expect(error).toBeInstanceOf(core.MaybeError);
+    expect(error!.fieldErrors).toEqual({ PORT: ['Expected number, received nan'] });
+  });
+});
@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const userSchema = z.object({
+  name: z.string().min(2),
+  email: z.string().email(),
+  age: z.number().int().positive()
+});
@@ -0,0 +1,12 @@
+import { z } from "zod";
+import { Maybe } from "../../src";
+
+export const userSchema = z.object({
+  name: z.string().min(2),
+  email: z.string().email(),
+  age: z.number().int().positive()
+});
+
+export const validateUser = Maybe((user) => user, userSchema.extend({ password: z.string().min(8) }));
+
+export const notAValidator = () => 'nope';
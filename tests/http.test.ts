@@ -0,0 +1,129 @@
+import { describe, expect, test } from 'vitest';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHandler, toNodeListener } from '../src';
+import { z } from "zod";
+
+const handler = createHandler(
+  {
+    body: z.object({ name: z.string().min(2), email: z.string().email() }),
+    query: z.object({ notify: z.enum(['yes', 'no']).default('no') }),
+    params: z.object({ teamId: z.string().regex(/^\d+$/) })
+  },
+  ({ body, query, params }) => ({ ...body, notify: query.notify === 'yes', teamId: Number(params.teamId) })
+);
+
+const post = (url: string, body: string, contentType = 'application/json') =>
+  new Request(url, { method: 'POST', headers: { 'content-type': contentType }, body });
+
+describe('createHandler', () => {
+  test('calls the processor with the validated request parts', async () => {
+    const response = await handler(post('http://localhost/teams/7/members?notify=yes', '{"name":"Ada","email":"ada@example.com"}'), {
+      teamId: '7'
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ name: 'Ada', email: 'ada@example.com', notify: true, teamId: 7 });
+  });
+
+  test('answers 400 problem+json with per-field errors', async () => {
+    const response = await handler(post('http://localhost/teams/x/members?notify=maybe', '{"name":"A","email":"ada@example.com"}'), {
+      teamId: 'x'
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get('content-type')).toBe('application/problem+json');
+    expect(await response.json()).toMatchObject({
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      kind: 'validation',
+      errors: {
+        'body.name': ['String must contain at least 2 character(s)'],
+        'query.notify': ["Invalid enum value. Expected 'yes' | 'no', received 'maybe'"],
+        'params.teamId': ['Invalid']
+      }
+    });
+  });
+
+  test('answers 400 to malformed JSON bodies', async () => {
+    const response = await handler(post('http://localhost/teams/7/members', '{"name":'), { teamId: '7' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ kind: 'parse', detail: 'The request body is not valid JSON' });
+  });
+
+  test('answers 500 without details when the processor throws', async () => {
+    const failing = createHandler({ query: z.object({}) }, () => {
+      throw new Error('connection refused: 10.0.0.12');
+    });
+
+    const response = await failing(new Request('http://localhost/'));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'The request could not be processed',
+      kind: 'processor-threw'
+    });
+  });
+
+  test('returns responses built by the processor as they are', async () => {
+    const created = createHandler({ body: z.object({ name: z.string() }) }, ({ body }) => new Response(body.name, { status: 201 }));
+
+    const response = await created(post('http://localhost/', 'name=Ada', 'application/x-www-form-urlencoded'));
+
+    expect(response.status).toBe(201);
+    expect(await response.text()).toBe('Ada');
+  });
+});
+
+describe('toNodeListener', () => {
+  test('serves a handler through node:http', async () => {
+    const server = createServer(toNodeListener(handler, (req) => ({ teamId: req.url!.split('/')[2]! })));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/teams/3/members`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name: 'Ada', email: 'invalid' })
+      });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ errors: { 'body.email': ['Invalid email'] } });
+    } finally {
+      server.close();
+    }
+  });
+
+  test('answers requests that cannot be read or handled', async () => {
+    const send = async (req: Partial<IncomingMessage>, listener = toNodeListener(handler)) => {
+      const sent: { status?: number; body?: string } = {};
+      await listener({ headers: {}, url: '/', ...req } as IncomingMessage, {
+        writeHead: (status: number) => (sent.status = status),
+        end: (body: Buffer) => (sent.body = body.toString())
+      } as unknown as ServerResponse);
+      return sent;
+    };
+
+    const aborted = await send({
+      method: 'POST',
+      async *[Symbol.asyncIterator]() {
+        throw new Error('aborted');
+      }
+    });
+    expect(aborted.status).toBe(400);
+    expect(JSON.parse(aborted.body!)).toMatchObject({ kind: 'input-rejected', detail: 'aborted' });
+
+    expect((await send({ method: 'GET', headers: { host: 'bad host' } })).status).toBe(400);
+
+    const crashed = await send({ method: 'GET' }, toNodeListener(async () => {
+      throw new Error('database is down');
+    }));
+    expect(crashed).toEqual({ status: 500, body: expect.not.stringContaining('database') });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, test } from 'vitest';
+import { Maybe, fromEntries, fromFormData, fromSearchParams, fromHeaders } from '../src';
+import { z } from "zod";
+
+const orderSchema = z.object({
+  email: z.string().email(),
+  newsletter: z.boolean(),
+  address: z.object({ city: z.string(), zip: z.string() }),
+  items: z.array(z.object({ sku: z.string(), qty: z.number().int().positive() })),
+  tags: z.array(z.string()).optional(),
+  note: z.string().optional()
+});
+
+describe('fromFormData', () => {
+  test('builds nested objects and arrays and coerces values from the schema', () => {
+    const form = new FormData();
+    form.append('email', 'ada@example.com');
+    form.append('newsletter', 'on');
+    form.append('address[city]', 'Paris');
+    form.append('address[zip]', '75001');
+    form.append('items[0].sku', 'ABC');
+    form.append('items[0].qty', '2');
+    form.append('items[1][sku]', 'DEF');
+    form.append('items[1][qty]', '1');
+    form.append('tags', 'gift');
+
+    expect(fromFormData(form, orderSchema)).toEqual({
+      email: 'ada@example.com',
+      newsletter: true,
+      address: { city: 'Paris', zip: '75001' },
+      items: [
+        { sku: 'ABC', qty: 2 },
+        { sku: 'DEF', qty: 1 }
+      ],
+      tags: ['gift']
+    });
+  });
+
+  test('keeps File entries', () => {
+    const schema = z.object({ avatar: z.instanceof(File), name: z.string() });
+    const avatar = new File(['png'], 'avatar.png', { type: 'image/png' });
+    const form = new FormData();
+    form.append('avatar', avatar);
+    form.append('name', 'Ada');
+
+    const [error, result] = Maybe((profile) => profile.avatar.name, schema)(fromFormData(form, schema));
+
+    expect(error).toBeNull();
+    expect(result).toBe('avatar.png');
+  });
+});
+
+describe('fromSearchParams', () => {
+  const querySchema = z.object({
+    page: z.number().int().default(1),
+    ids: z.array(z.number()),
+    active: z.boolean().optional(),
+    from: z.date().optional()
+  });
+
+  test('turns repeated keys into arrays', () => {
+    expect(fromSearchParams(new URLSearchParams('page=2&ids=1&ids=2&active=false'), querySchema)).toEqual({
+      page: 2,
+      ids: [1, 2],
+      active: false
+    });
+  });
+
+  test('accepts query strings and bracket arrays', () => {
+    expect(fromSearchParams('ids[]=3&from=2024-01-31', querySchema)).toEqual({ ids: [3], from: new Date('2024-01-31') });
+  });
+
+  test('keeps large indexes as object keys instead of growing arrays', () => {
+    expect(fromSearchParams('ids[20]=1', querySchema)).toMatchObject({ ids: expect.any(Array) });
+    expect(fromSearchParams('ids[50000000]=1', querySchema)).toEqual({ ids: [{ 50000000: '1' }] });
+    expect((fromSearchParams('ids[0]=1&ids[3000000]=2', querySchema) as { ids: number[] }).ids).toEqual([1]);
+  });
+
+  test('skips keys that do not fit the values given before them', () => {
+    const schema = z.object({ a: z.unknown(), b: z.unknown() });
+
+    expect(fromSearchParams('a=1&a[b]=2&b[c]=3&b[c][d]=4', schema)).toEqual({ a: '1', b: { c: '3' } });
+  });
+
+  test('treats empty numbers as missing so defaults apply', () => {
+    const [error, result] = Maybe((query) => query.page, querySchema)(fromSearchParams('page=&ids=1', querySchema));
+
+    expect(error).toBeNull();
+    expect(result).toBe(1);
+  });
+});
+
+describe('fromHeaders', () => {
+  const headersSchema = z.object({
+    'x-request-id': z.string(),
+    'x-retry': z.number().optional(),
+    'accept-language': z.array(z.string())
+  });
+
+  test('lower-cases names and splits lists', () => {
+    const headers = new Headers({ 'X-Request-Id': 'abc', 'X-Retry': '3', 'Accept-Language': 'fr, de' });
+
+    expect(fromHeaders(headers, headersSchema)).toEqual({ 'x-request-id': 'abc', 'x-retry': 3, 'accept-language': ['fr', 'de'] });
+  });
+
+  test('accepts plain header maps', () => {
+    expect(fromHeaders({ 'x-request-id': 'abc', 'accept-language': ['fr', 'en'], 'x-retry': undefined }, headersSchema)).toEqual({
+      'x-request-id': 'abc',
+      'accept-language': ['fr', 'en']
+    });
+  });
+});
+
+describe('fromEntries', () => {
+  test('ignores prototype keys', () => {
+    const decoded = fromEntries([['__proto__[admin]', 'true'], ['name', 'Ada']], z.object({ name: z.string() }));
+
+    expect(decoded).toEqual({ name: 'Ada' });
+    expect(({} as Record<string, unknown>).admin).toBeUndefined();
+  });
+
+  test('coerces the options of unions', () => {
+    const schema = z.object({
+      limit: z.union([z.number(), z.literal('all')]),
+      id: z.union([z.string().uuid(), z.number().int()]),
+      payment: z.discriminatedUnion('method', [
+        z.object({ method: z.literal('card'), last4: z.string(), expires: z.date() }),
+        z.object({ method: z.literal('points'), amount: z.number(), gift: z.boolean() })
+      ])
+    });
+
+    expect(fromEntries([['limit', '20'], ['id', '42'], ['payment[method]', 'points'], ['payment[amount]', '150'], ['payment[gift]', 'on']], schema)).toEqual({
+      limit: 20,
+      id: 42,
+      payment: { method: 'points', amount: 150, gift: true }
+    });
+    expect(fromEntries([['limit', 'all'], ['id', 'x'], ['payment[method]', 'card'], ['payment[expires]', '2030-01-01']], schema)).toEqual({
+      limit: 'all',
+      id: 'x',
+      payment: { method: 'card', expires: new Date('2030-01-01') }
+    });
+  });
+
+  test('selects discriminated options tagged with numbers', () => {
+    const schema = z.discriminatedUnion('version', [
+      z.object({ version: z.literal(1), name: z.string() }),
+      z.object({ version: z.literal(2), names: z.array(z.string()), strict: z.boolean() })
+    ]);
+
+    expect(fromEntries([['version', '2'], ['names[]', 'Ada'], ['strict', 'no']], schema)).toEqual({ version: 2, names: ['Ada'], strict: false });
+  });
+});
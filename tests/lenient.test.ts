@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'vitest';
+import { Maybe, AsyncMaybe, pipe, sensitive, REDACTED } from '../src';
+import { z } from "zod";
+
+const listingSchema = z.object({
+  id: z.string(),
+  price: z.number().positive(),
+  currency: z.enum(['EUR', 'USD']).default('EUR'),
+  description: z.string().max(20).optional(),
+  seller: z.object({
+    name: z.string(),
+    rating: z.number().min(0).max(5).optional()
+  })
+});
+
+const feedItem = {
+  id: 'L-1',
+  price: 12,
+  currency: 'GBP',
+  description: 'A description that is far too long for the feed',
+  seller: { name: 'Ada', rating: 11 }
+};
+
+describe('Lenient mode', () => {
+  test('drops failing optional fields and applies defaults', () => {
+    const [error, result, ...rest] = Maybe((listing) => listing, listingSchema, { lenient: true })(feedItem);
+
+    expect(error).toBeNull();
+    expect(rest).toEqual([]);
+    expect(result).toEqual({ id: 'L-1', price: 12, currency: 'EUR', seller: { name: 'Ada' } });
+  });
+
+  test('lists what was removed in the warnings', () => {
+    const validated = Maybe((listing) => listing, listingSchema, { lenient: true })(feedItem);
+
+    expect(validated.warnings).toMatchObject([
+      { path: 'currency', action: 'defaulted', issues: [{ code: 'invalid_enum_value' }] },
+      { path: 'description', action: 'dropped', issues: [{ code: 'too_big' }] },
+      { path: 'seller.rating', action: 'dropped', issues: [{ code: 'too_big' }] }
+    ]);
+  });
+
+  test('still fails on required fields', () => {
+    const validated = Maybe((listing) => listing, listingSchema, { lenient: true })({ ...feedItem, price: -1 });
+
+    expect(validated.isErr()).toBe(true);
+    expect(Object.keys(validated[0]!.fieldErrors)).toContain('price');
+  });
+
+  test('is off by default', () => {
+    const validated = Maybe((listing) => listing, listingSchema)(feedItem);
+
+    expect(validated.isErr()).toBe(true);
+    expect(validated.warnings).toEqual([]);
+  });
+
+  test('can be switched per call', async () => {
+    const strict = Maybe((listing) => listing, listingSchema);
+    const lenient = AsyncMaybe((listing) => listing, listingSchema, { lenient: true });
+
+    expect(strict(feedItem, { lenient: true }).warnings).toHaveLength(3);
+    expect((await lenient(feedItem, { lenient: false })).isErr()).toBe(true);
+  });
+
+  test('works with async validators and keeps warnings through map and pipelines', async () => {
+    const validate = AsyncMaybe(async (listing) => listing.price, listingSchema, { lenient: true });
+
+    const validated = await validate(feedItem);
+    const piped = await pipe(validate)(feedItem);
+
+    expect(validated.unwrap()).toBe(12);
+    expect(validated.warnings).toHaveLength(3);
+    expect(validated.map((price) => price * 2).warnings).toHaveLength(3);
+    expect(piped.warnings).toHaveLength(3);
+  });
+
+  test('returns failures without issues instead of retrying them', () => {
+    const schema = z.object({
+      a: z.string().transform(() => {
+        throw new Error('broken transform');
+      })
+    });
+
+    const [error] = Maybe((data) => data, schema, { lenient: true })({ a: 'x' });
+
+    expect(error!.kind).toBe('validation');
+  });
+
+  test('defaults fields with async refinements in async validators', async () => {
+    const schema = z.object({
+      name: z.string(),
+      code: z.string().refine(async (code) => code.length === 4).default('abcd')
+    });
+
+    const validated = await AsyncMaybe((data) => data, schema, { lenient: true })({ name: 'Ada', code: 12 });
+
+    expect(validated.unwrap()).toEqual({ name: 'Ada', code: 'abcd' });
+    expect(validated.warnings).toMatchObject([{ path: 'code', action: 'defaulted' }]);
+  });
+
+  test('redacts the issues of sensitive fields', () => {
+    const schema = z.object({
+      token: sensitive(z.string().refine((token) => token.startsWith('tk_'), (token) => ({ message: `Unknown token ${token}` }))).optional()
+    });
+
+    const validated = Maybe((data) => data, schema, { lenient: true })({ token: 'secret-token' });
+
+    expect(validated.warnings[0]!.issues[0]!.message).toBe(`Unknown token ${REDACTED}`);
+    expect(JSON.stringify(validated.warnings)).not.toContain('secret-token');
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, test } from 'vitest';
+import { Maybe, AsyncMaybe, configureMessages, registerLocale } from '../src';
+import { z } from "zod";
+
+const userSchema = z.object({
+  name: z.string().min(2),
+  age: z.number().int().positive(),
+  email: z.string().email()
+});
+
+const invalidUser = { name: 'A', age: -5, email: 'invalid' };
+
+afterEach(() => {
+  configureMessages({ locale: undefined, errorMap: undefined });
+});
+
+describe('Locales', () => {
+  test('keeps the Zod messages by default', () => {
+    const [error] = Maybe((user) => user, userSchema)(invalidUser);
+
+    expect(error!.fieldErrors.name).toEqual(['String must contain at least 2 character(s)']);
+  });
+
+  test('uses the locale of the validator', () => {
+    const [error] = Maybe((user) => user, userSchema, { locale: 'fr' })(invalidUser);
+
+    expect(error!.fieldErrors).toEqual({
+      name: ['Doit contenir au moins 2 caractère(s)'],
+      age: ['Le nombre doit être supérieur à 0'],
+      email: ['Adresse e-mail invalide']
+    });
+  });
+
+  test('lets the call pick the locale', async () => {
+    const validateUser = AsyncMaybe((user) => user, userSchema, { locale: 'fr' });
+
+    const [error] = await validateUser({ ...invalidUser, name: undefined }, { locale: 'de' });
+
+    expect(error!.fieldErrors).toEqual({
+      name: ['Erforderlich'],
+      age: ['Die Zahl muss größer als 0 sein'],
+      email: ['Ungültige E-Mail-Adresse']
+    });
+  });
+
+  test('keeps the messages given by the schema', () => {
+    const schema = z.object({
+      name: z.string({ required_error: 'Le nom est obligatoire' }),
+      age: z.number({ invalid_type_error: 'L\'âge doit être un nombre' }).int(),
+      email: z.string().email()
+    });
+
+    const [error] = Maybe((user) => user, schema, { locale: 'fr' })({ age: 'vingt', email: 'invalid' });
+
+    expect(error!.fieldErrors).toEqual({
+      name: ['Le nom est obligatoire'],
+      age: ['L\'âge doit être un nombre'],
+      email: ['Adresse e-mail invalide']
+    });
+  });
+
+  test('applies the global locale', () => {
+    configureMessages({ locale: 'de' });
+
+    const [error] = Maybe((user) => user, userSchema)(invalidUser);
+
+    expect(error!.fieldErrors.name).toEqual(['Muss mindestens 2 Zeichen enthalten']);
+  });
+
+  test('keeps messages given in the schema', () => {
+    const schema = z.object({ name: z.string().min(2, 'Name is too short') });
+
+    const [error] = Maybe((user) => user, schema, { locale: 'fr' })({ name: 'A' });
+
+    expect(error!.fieldErrors.name).toEqual(['Name is too short']);
+  });
+
+  test('accepts registered locales', () => {
+    registerLocale('es', (issue, ctx) => ({ message: issue.code === 'invalid_string' ? 'Correo no válido' : ctx.defaultError }));
+
+    const [error] = Maybe((user) => user, userSchema)({ name: 'Ana', age: 30, email: 'invalid' }, { locale: 'es' });
+
+    expect(error!.fieldErrors.email).toEqual(['Correo no válido']);
+  });
+});
+
+describe('Error Maps', () => {
+  test('receives the locale message as the default error', () => {
+    const validateUser = Maybe((user) => user, userSchema, {
+      locale: 'fr',
+      errorMap: (issue, ctx) => ({ message: issue.path.includes('email') ? 'Vérifiez votre e-mail' : ctx.defaultError })
+    });
+
+    const [error] = validateUser(invalidUser);
+
+    expect(error!.fieldErrors.email).toEqual(['Vérifiez votre e-mail']);
+    expect(error!.fieldErrors.age).toEqual(['Le nombre doit être supérieur à 0']);
+  });
+
+  test('applies the global error map', () => {
+    configureMessages({ errorMap: (issue, ctx) => ({ message: `[${issue.code}] ${ctx.defaultError}` }) });
+
+    const [error] = Maybe((user) => user, userSchema)({ name: 'Ana', age: 30, email: 'invalid' });
+
+    expect(error!.message).toBe('email: [invalid_string] Invalid email');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'vitest';
+import { Maybe, AsyncMaybe, MaybeError, pipe } from '../src';
+import { z } from "zod";
+
+const requestSchema = z.object({
+  name: z.string().min(2),
+  email: z.string().email()
+});
+
+const normalizedSchema = z.object({
+  name: z.string(),
+  email: z.string().refine((email) => email === email.toLowerCase(), { message: 'Email must be lowercase' })
+});
+
+type Request = z.infer<typeof requestSchema>;
+
+const parseRequest = Maybe((request: Request) => request, requestSchema);
+const normalize = (request: Request) => ({ ...request, email: request.email.toLowerCase() });
+const enrich = Maybe((request: Request) => ({ ...request, id: 42 }), normalizedSchema);
+
+describe('pipe - Synchronous Pipelines', () => {
+  test('chains map and andThen steps', () => {
+    const handle = pipe(parseRequest).map(normalize).andThen(enrich);
+
+    const [error, result] = handle({ name: 'Alice', email: 'Alice@Example.com' });
+
+    expect(error).toBeNull();
+    expect(result).toEqual({ name: 'Alice', email: 'alice@example.com', id: 42 });
+  });
+
+  test('short-circuits on the first error', () => {
+    let mapped = false;
+    const handle = pipe(parseRequest)
+      .map((request) => {
+        mapped = true;
+        return request;
+      })
+      .andThen(enrich);
+
+    const [error, result] = handle({ name: 'A', email: 'alice@example.com' });
+
+    expect(result).toBeNull();
+    expect(error!.kind).toBe('validation');
+    expect(mapped).toBe(false);
+  });
+
+  test('reports errors from later steps', () => {
+    const [error] = pipe(parseRequest).andThen(enrich)({ name: 'Alice', email: 'Alice@Example.com' });
+
+    expect(error!.fieldErrors).toEqual({ email: ['Email must be lowercase'] });
+  });
+
+  test('captures exceptions thrown by map', () => {
+    const [error, result] = pipe(parseRequest).map(() => {
+      throw new Error('boom');
+    })({ name: 'Alice', email: 'alice@example.com' });
+
+    expect(result).toBeNull();
+    expect(error!.kind).toBe('processor-threw');
+    expect(error!.cause).toEqual(new Error('boom'));
+  });
+
+  test('rewrites errors with mapError', () => {
+    const handle = pipe(parseRequest).mapError((error) => new MaybeError(error.kind, 'Invalid request', { cause: error }));
+
+    const [error] = handle({ name: 'A', email: 'alice@example.com' });
+
+    expect(error!.message).toBe('Invalid request');
+  });
+});
+
+describe('pipe - Asynchronous Pipelines', () => {
+  test('becomes async when an async step is added', async () => {
+    const persist = AsyncMaybe((request: Request & { id: number }) => ({ ...request, saved: true }), normalizedSchema.extend({ id: z.number() }));
+    const handle = pipe(parseRequest).map(normalize).andThen(enrich).andThen(persist);
+
+    const pending = handle({ name: 'Alice', email: 'alice@example.com' });
+    expect(pending).toBeInstanceOf(Promise);
+
+    const [error, result] = await pending;
+
+    expect(error).toBeNull();
+    expect(result).toEqual({ name: 'Alice', email: 'alice@example.com', id: 42, saved: true });
+  });
+
+  test('awaits async map functions', async () => {
+    const handle = pipe(parseRequest).map(async (request) => request.name.length);
+
+    const [error, result] = await handle({ name: 'Alice', email: 'alice@example.com' });
+
+    expect(error).toBeNull();
+    expect(result).toBe(5);
+  });
+
+  test('starts from an AsyncMaybe validator', async () => {
+    const handle = pipe(AsyncMaybe((request: Request) => request, requestSchema)).map(normalize);
+
+    const [error, result] = await handle(Promise.reject(new Error('Network error')));
+
+    expect(result).toBeNull();
+    expect(error!.kind).toBe('input-rejected');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'vitest';
+import { Maybe, AsyncMaybe, orElse, recover, withDefault } from '../src';
+import { z } from "zod";
+
+const v2Schema = z.object({ version: z.literal(2), theme: z.enum(['light', 'dark']), fontSize: z.number() });
+const v1Schema = z.object({ darkMode: z.boolean() });
+
+type Settings = { theme: 'light' | 'dark'; fontSize: number };
+
+const fromV2 = Maybe((settings): Settings => ({ theme: settings.theme, fontSize: settings.fontSize }), v2Schema);
+const fromV1 = Maybe((settings): Settings => ({ theme: settings.darkMode ? 'dark' : 'light', fontSize: 14 }), v1Schema);
+
+const storedSettings: Settings = { theme: 'light', fontSize: 16 };
+
+describe('orElse', () => {
+  test('records the primary branch when the first validator succeeds', () => {
+    const result = orElse(fromV2, fromV1)({ version: 2, theme: 'dark', fontSize: 12 });
+
+    expect(result.unwrap()).toEqual({ theme: 'dark', fontSize: 12 });
+    expect(result.branch).toBe('primary');
+  });
+
+  test('tries the fallback validator', () => {
+    const result = orElse(fromV2, fromV1)({ darkMode: true });
+
+    const settings: Settings = result.unwrap();
+    expect(settings).toEqual({ theme: 'dark', fontSize: 14 });
+    expect(result.branch).toBe('fallback');
+  });
+
+  test('combines the errors when both fail', () => {
+    const [error] = orElse(fromV2, fromV1)({ darkMode: 'yes' });
+
+    expect(Object.keys(error!.fieldErrors)).toEqual(['primary.version', 'primary.theme', 'primary.fontSize', 'fallback.darkMode']);
+  });
+
+  test('handles async validators', async () => {
+    const fetchV1 = AsyncMaybe(async (settings): Promise<Settings> => ({ theme: settings.darkMode ? 'dark' : 'light', fontSize: 14 }), v1Schema);
+
+    const result = await orElse(fromV2, fetchV1)({ darkMode: false });
+
+    expect(result.unwrap()).toEqual({ theme: 'light', fontSize: 14 });
+    expect(result.branch).toBe('fallback');
+  });
+});
+
+describe('recover', () => {
+  test('replaces errors by kind', () => {
+    const load = Maybe((): Settings => {
+      throw new Error('storage unavailable');
+    }, z.unknown());
+
+    const result = recover(load, { kinds: { 'processor-threw': storedSettings } })(null);
+
+    expect(result.unwrap()).toBe(storedSettings);
+    expect(result.branch).toBe('recovered');
+  });
+
+  test('replaces errors by issue code, with a function of the error', () => {
+    const result = recover(fromV2, { codes: { invalid_literal: (error) => ({ ...storedSettings, issues: error.issues.length }) } })({ version: 1 });
+
+    expect(result.unwrap()).toEqual({ ...storedSettings, issues: 3 });
+  });
+
+  test('keeps errors matching no rule', () => {
+    const result = recover(fromV2, { kinds: { timeout: storedSettings } })({});
+
+    expect(result.isErr()).toBe(true);
+    expect(result.branch).toBe('primary');
+  });
+});
+
+describe('withDefault', () => {
+  test('always yields a value', async () => {
+    const fromV2Async = AsyncMaybe(async (settings) => settings.theme, v2Schema);
+
+    const fallback = await withDefault(fromV2Async, 'light')({});
+    const parsed = await withDefault(fromV2Async, 'light')({ version: 2, theme: 'dark', fontSize: 12 });
+
+    expect([fallback[1], fallback.branch]).toEqual(['light', 'default']);
+    expect([parsed[1], parsed.branch]).toEqual(['dark', 'primary']);
+  });
+
+  test('returns the error thrown by the fallback', async () => {
+    const readStored = (): Settings => {
+      throw new Error('storage unavailable');
+    };
+
+    const result = withDefault(fromV2, readStored)({});
+    const asyncResult = await withDefault(AsyncMaybe(async (settings) => settings, v2Schema), readStored)({});
+
+    expect(result[0]!.kind).toBe('processor-threw');
+    expect(result[0]!.message).toBe('storage unavailable');
+    expect(result.branch).toBe('default');
+    expect(asyncResult[0]!.kind).toBe('processor-threw');
+  });
+
+  test('keeps the branch of nested combinators', () => {
+    const result = withDefault(orElse(fromV2, fromV1), storedSettings)({ darkMode: true });
+
+    expect(result.branch).toBe('fallback');
+  });
+});
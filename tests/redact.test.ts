@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'vitest';
+import { Maybe, AsyncMaybe, sensitive, REDACTED, type SettledEvent } from '../src';
+import { z } from "zod";
+
+const paymentSchema = z.object({
+  holder: z.string(),
+  card: z.object({
+    number: sensitive(z.string().regex(/^\d{16}$/, { message: 'Invalid card number' })).refine((number) => !number.startsWith('0000'), (number) => ({ message: `Card ${number} is blocked` })),
+    cvv: sensitive(z.enum(['123', '456'])).optional()
+  }),
+  pin: z.literal('0000')
+});
+
+describe('Redaction', () => {
+  test('masks the received values and messages of sensitive fields', () => {
+    const [error] = Maybe((payment) => payment, paymentSchema)({
+      holder: 'Ada',
+      card: { number: '0000111122223333', cvv: '999' },
+      pin: '0000'
+    });
+
+    const serialized = [error!.message, error!.toString(), error!.toLegacyString(), JSON.stringify(error!.cause)].join('\n');
+    expect(serialized).not.toContain('0000111122223333');
+    expect(serialized).not.toContain('999');
+    expect(error!.fieldErrors['card.number']).toEqual([`Card ${REDACTED} is blocked`]);
+    expect(error!.issues.find((issue) => issue.path.join('.') === 'card.cvv')).toMatchObject({
+      code: 'invalid_enum_value',
+      path: ['card', 'cvv'],
+      received: REDACTED
+    });
+  });
+
+  test('masks explicit paths, with wildcards', () => {
+    const schema = z.object({ pin: z.literal('1234'), tokens: z.array(z.object({ secret: z.literal('s') })) });
+    const [error] = Maybe((data) => data, schema, { redact: ['pin', 'tokens.*.secret'] })({
+      pin: '9876',
+      tokens: [{ secret: 'hunter2' }]
+    });
+
+    expect(error!.issues).toMatchObject([
+      { code: 'invalid_literal', path: ['pin'], received: REDACTED },
+      { code: 'invalid_literal', path: ['tokens', 0, 'secret'], received: REDACTED }
+    ]);
+    expect(error!.toLegacyString()).not.toMatch(/9876|hunter2/);
+  });
+
+  test('masks the paths given per call, in addition to the validator\'s', async () => {
+    const schema = z.object({ pin: z.literal('1234'), otp: z.literal('000000'), note: z.literal('ok') });
+    const input = { pin: '9876', otp: '123456', note: 'ko' };
+
+    const validate = Maybe((data) => data, schema, { redact: ['pin'] });
+    expect(validate(input, { redact: ['otp'] })[0]!.issues.map((issue) => (issue as { received: unknown }).received)).toEqual([REDACTED, REDACTED, 'ko']);
+    expect(validate(input)[0]!.issues.map((issue) => (issue as { received: unknown }).received)).toEqual([REDACTED, '123456', 'ko']);
+
+    const [error] = await AsyncMaybe((data) => data, schema)(input, { redact: ['note'] });
+    expect(error!.toLegacyString()).not.toContain('ko');
+  });
+
+  test('masks the resolved value of input promises in hook payloads', async () => {
+    const inputs: unknown[] = [];
+    const login = AsyncMaybe((credentials) => credentials, z.object({ user: z.string().min(4), password: sensitive(z.string()) }), {
+      onSettled: (event) => inputs.push(event.input)
+    });
+
+    await login(Promise.resolve({ user: 'ada', password: 'hunter2' }));
+    await login(Promise.reject(new Error('connection reset')));
+
+    expect(inputs).toEqual([{ user: 'ada', password: REDACTED }, undefined]);
+  });
+
+  test('leaves other fields untouched', () => {
+    const [error] = Maybe((payment) => payment, paymentSchema)({ holder: 'Ada', card: { number: '1111222233334444' }, pin: '1234' });
+
+    expect(error!.issues).toMatchObject([{ code: 'invalid_literal', path: ['pin'], received: '1234' }]);
+  });
+
+  test('masks hook payloads', async () => {
+    const events: SettledEvent[] = [];
+    const charge = AsyncMaybe(
+      async (payment) => ({ charged: true, card: payment.card }),
+      paymentSchema,
+      {
+        output: z.object({ charged: z.boolean(), card: z.object({ number: sensitive(z.string()), cvv: z.string().optional() }) }),
+        onSettled: (event) => events.push(event)
+      }
+    );
+
+    await charge({ holder: 'Ada', card: { number: '1111222233334444', cvv: '123' }, pin: '0000' });
+
+    expect(events[0]).toMatchObject({
+      ok: true,
+      input: { holder: 'Ada', card: { number: REDACTED, cvv: REDACTED }, pin: '0000' },
+      result: { charged: true, card: { number: REDACTED, cvv: '123' } }
+    });
+  });
+});
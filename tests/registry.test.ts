@@ -0,0 +1,151 @@
+import { describe, expect, test } from 'vitest';
+import { createRegistry, toJsonSchema } from '../src';
+import { z } from "zod";
+
+const userSchema = z.object({
+  name: z.string().min(2).max(50),
+  email: z.string().email(),
+  age: z.number().int().positive().optional(),
+  role: z.enum(['admin', 'member']).default('member'),
+  tags: z.array(z.string()).max(5)
+});
+
+const userOutputSchema = z.object({ id: z.string().uuid(), name: z.string(), role: z.enum(['admin', 'member']) });
+
+describe('toJsonSchema', () => {
+  test('converts objects, formats, bounds and defaults', () => {
+    expect(toJsonSchema(userSchema)).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 2, maxLength: 50 },
+        email: { type: 'string', format: 'email' },
+        age: { type: 'integer', exclusiveMinimum: 0 },
+        role: { type: 'string', enum: ['admin', 'member'], default: 'member' },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5 }
+      },
+      required: ['name', 'email', 'tags']
+    });
+  });
+
+  test('converts IP addresses by version', () => {
+    expect(toJsonSchema(z.string().ip({ version: 'v4' }))).toEqual({ type: 'string', format: 'ipv4' });
+    expect(toJsonSchema(z.string().ip({ version: 'v6' }))).toEqual({ type: 'string', format: 'ipv6' });
+    expect(toJsonSchema(z.string().ip())).toEqual({ type: 'string', anyOf: [{ format: 'ipv4' }, { format: 'ipv6' }] });
+  });
+
+  test('keeps every pattern of a string', () => {
+    expect(toJsonSchema(z.string().regex(/^[a-z]+$/))).toEqual({ type: 'string', pattern: '^[a-z]+$' });
+    expect(toJsonSchema(z.string().startsWith('sk.').endsWith('.v2'))).toEqual({
+      type: 'string',
+      allOf: [{ pattern: '^sk\\.' }, { pattern: '\\.v2$' }]
+    });
+  });
+
+  test('describes outputs after defaults and transforms', () => {
+    const schema = z.object({
+      role: z.enum(['admin', 'member']).default('member'),
+      createdAt: z.string().transform((value) => new Date(value))
+    });
+
+    expect(toJsonSchema(schema, 'output')).toEqual({
+      type: 'object',
+      properties: { role: { type: 'string', enum: ['admin', 'member'] }, createdAt: {} },
+      required: ['role', 'createdAt'],
+      additionalProperties: false
+    });
+  });
+
+  test('converts unions, nullables, literals, tuples and records', () => {
+    const schema = z.union([
+      z.object({ type: z.literal('point'), at: z.tuple([z.number(), z.number()]) }),
+      z.record(z.boolean().nullable())
+    ]).describe('A shape');
+
+    expect(toJsonSchema(schema)).toEqual({
+      description: 'A shape',
+      anyOf: [
+        {
+          type: 'object',
+          properties: {
+            type: { const: 'point' },
+            at: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], items: false, minItems: 2 }
+          },
+          required: ['type', 'at']
+        },
+        { type: 'object', additionalProperties: { anyOf: [{ type: 'boolean' }, { type: 'null' }] } }
+      ]
+    });
+  });
+});
+
+describe('createRegistry', () => {
+  const createUsers = () => {
+    const registry = createRegistry();
+    const createUser = registry.maybe('createUser', (user) => ({ id: crypto.randomUUID(), name: user.name, role: user.role }), userSchema, {
+      output: userOutputSchema,
+      summary: 'Create a user',
+      route: { method: 'post', path: '/teams/{teamId}/users' }
+    });
+    const findUser = registry.asyncMaybe('find-user', async ({ id }) => ({ id, name: 'Ada', role: 'admin' as const }), z.object({ id: z.string().uuid() }), {
+      output: userOutputSchema,
+      route: { method: 'get', path: '/users/{id}' }
+    });
+    registry.register('listUsers', { input: z.object({ page: z.number().int().default(1) }), route: { method: 'get', path: '/users' } });
+    return { registry, createUser, findUser };
+  };
+
+  test('creates validators enforcing the registered schemas', async () => {
+    const { registry, createUser, findUser } = createUsers();
+
+    expect(createUser({ name: 'Ada', email: 'ada@example.com', tags: [] }).isOk()).toBe(true);
+    expect((await findUser({ id: 'nope' })).isErr()).toBe(true);
+    expect(registry.names()).toEqual(['createUser', 'find-user', 'listUsers']);
+  });
+
+  test('rejects duplicate names', () => {
+    const { registry } = createUsers();
+
+    expect(() => registry.register('createUser', { input: z.object({}) })).toThrow('A validator named "createUser" is already registered');
+  });
+
+  test('generates the JSON Schemas of a validator', () => {
+    const { registry } = createUsers();
+
+    expect(registry.toJsonSchema('createUser')).toEqual({ input: toJsonSchema(userSchema), output: toJsonSchema(userOutputSchema, 'output') });
+    expect(() => registry.toJsonSchema('deleteUser')).toThrow('No validator named "deleteUser" is registered');
+  });
+
+  test('assembles an OpenAPI 3.1 document', () => {
+    const { registry } = createUsers();
+
+    const document = registry.toOpenApi({ title: 'Users', version: '1.0.0' });
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(Object.keys(document.components.schemas)).toEqual([
+      'CreateUserInput',
+      'CreateUserOutput',
+      'FindUserInput',
+      'FindUserOutput',
+      'ListUsersInput',
+      'Problem'
+    ]);
+    expect(document.paths['/teams/{teamId}/users']).toMatchObject({
+      post: {
+        operationId: 'createUser',
+        summary: 'Create a user',
+        parameters: [{ name: 'teamId', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateUserInput' } } } },
+        responses: {
+          200: { content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateUserOutput' } } } },
+          400: { content: { 'application/problem+json': { schema: { $ref: '#/components/schemas/Problem' } } } }
+        }
+      }
+    });
+    expect(document.paths['/users/{id}']).toMatchObject({
+      get: { parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }] }
+    });
+    expect(document.paths['/users']).toMatchObject({
+      get: { parameters: [{ name: 'page', in: 'query', required: false, schema: { type: 'integer', default: 1 } }], responses: { 200: { description: 'OK' } } }
+    });
+  });
+});
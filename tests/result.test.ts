@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'vitest';
+import { Maybe, AsyncMaybe, MaybeError, pipe } from '../src';
+import { z } from "zod";
+
+const priceSchema = z.object({
+  amount: z.number().positive(),
+  currency: z.enum(['EUR', 'USD'])
+});
+
+type Price = z.infer<typeof priceSchema>;
+
+const validatePrice = Maybe((price: Price) => price.amount * 100, priceSchema);
+
+describe('MaybeResult - Tuple Behaviour', () => {
+  test('destructures as an [error, result] tuple', () => {
+    const [error, cents] = validatePrice({ amount: 12.5, currency: 'EUR' });
+
+    expect(error).toBeNull();
+    expect(cents).toBe(1250);
+  });
+
+  test('narrows the result once the error is checked', () => {
+    const [error, cents] = validatePrice({ amount: 3, currency: 'USD' });
+    if (error) throw error;
+
+    const total: number = cents + 1;
+    expect(total).toBe(301);
+  });
+
+  test('compares equal to a plain tuple', () => {
+    expect(validatePrice({ amount: 1, currency: 'EUR' })).toEqual([null, 100]);
+  });
+});
+
+describe('MaybeResult - Methods', () => {
+  test('isOk and isErr act as type guards', () => {
+    const valid = validatePrice({ amount: 1, currency: 'EUR' });
+    const invalid = validatePrice({ amount: -1, currency: 'EUR' });
+
+    expect(valid.isOk()).toBe(true);
+    expect(valid.isErr()).toBe(false);
+    expect(invalid.isErr()).toBe(true);
+    if (invalid.isErr()) expect(invalid[0].kind).toBe('validation');
+  });
+
+  test('unwrap returns the value or throws the MaybeError', () => {
+    expect(validatePrice({ amount: 2, currency: 'USD' }).unwrap()).toBe(200);
+    expect(() => validatePrice({ amount: 2, currency: 'GBP' }).unwrap()).toThrow(MaybeError);
+  });
+
+  test('unwrapOr falls back on failure', () => {
+    expect(validatePrice({ amount: 0, currency: 'USD' }).unwrapOr(0)).toBe(0);
+  });
+
+  test('match calls the matching handler', () => {
+    const describe = (input: unknown) =>
+      validatePrice(input).match({
+        ok: (cents) => `${cents} cents`,
+        err: (error) => Object.keys(error.fieldErrors).join(', ')
+      });
+
+    expect(describe({ amount: 4, currency: 'EUR' })).toBe('400 cents');
+    expect(describe({ amount: -4, currency: 'JPY' })).toBe('amount, currency');
+  });
+
+  test('map transforms successful results and keeps errors', () => {
+    expect(validatePrice({ amount: 1, currency: 'EUR' }).map((cents) => cents / 2)).toEqual([null, 50]);
+
+    const [error, result] = validatePrice({ amount: -1, currency: 'EUR' }).map((cents) => cents / 2);
+    expect(error!.kind).toBe('validation');
+    expect(result).toBeNull();
+  });
+
+  test('map captures exceptions as processor-threw errors', () => {
+    const [error] = validatePrice({ amount: 1, currency: 'EUR' }).map(() => {
+      throw new Error('boom');
+    });
+
+    expect(error!.kind).toBe('processor-threw');
+  });
+
+  test('is returned by AsyncMaybe and pipelines', async () => {
+    const validateAsync = AsyncMaybe((price: Price) => price.currency, priceSchema);
+
+    expect((await validateAsync({ amount: 1, currency: 'USD' })).unwrap()).toBe('USD');
+    expect(pipe(validatePrice).map((cents) => cents + 1)({ amount: 1, currency: 'EUR' }).unwrap()).toBe(101);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, test } from 'vitest';
+import { getEventListeners } from 'node:events';
+import { MessageChannel } from 'node:worker_threads';
+import {
+  MaybeError,
+  procedure,
+  createRouter,
+  createRpcHandler,
+  serveWorker,
+  createClient,
+  httpLink,
+  workerLink
+} from '../src';
+import { z } from "zod";
+
+const users = new Map<string, { id: string; name: string; createdAt: Date }>();
+
+const router = createRouter({
+  users: {
+    create: procedure(z.object({ name: z.string().min(2) }), ({ name }) => {
+      const user = { id: String(users.size + 1), name, createdAt: new Date(0) };
+      users.set(user.id, user);
+      return user;
+    }),
+    get: procedure(z.object({ id: z.string() }), async ({ id }) => users.get(id) ?? null)
+  },
+  health: procedure(z.undefined(), () => 'ok' as const),
+  crash: procedure(z.object({}), (): number => {
+    throw new Error('database password is hunter2');
+  }),
+  total: procedure(z.number().array(), (values) => values.reduce((sum, value) => sum + value, 0), { output: z.number().max(100) })
+});
+
+const handler = createRpcHandler(router, { prefix: '/rpc' });
+const http = createClient<typeof router>(
+  httpLink({ url: 'http://api.test/rpc', fetch: async (url, init) => handler(new Request(url, init)) })
+);
+
+describe('RPC', () => {
+  test('calls procedures by path on the router', async () => {
+    expect(router.paths()).toEqual(['users.create', 'users.get', 'health', 'crash', 'total']);
+    expect(await router.call('total', [1, 2])).toEqual([null, 3]);
+
+    const [error] = await router.call('users.remove', {});
+    expect(error).toBeInstanceOf(MaybeError);
+    expect(error!.kind).toBe('transport');
+  });
+
+  describe('over HTTP', () => {
+    test('returns the result of the procedure', async () => {
+      const [error, user] = await http.users.create({ name: 'Ada' });
+
+      expect(error).toBeNull();
+      expect(user).toMatchObject({ name: 'Ada' });
+      expect(await http.health(undefined)).toEqual([null, 'ok']);
+    });
+
+    test('rebuilds validation errors on the client', async () => {
+      const result = await http.users.create({ name: 'A' });
+
+      expect(result.isErr()).toBe(true);
+      expect(result[0]).toBeInstanceOf(MaybeError);
+      expect(result[0]!.kind).toBe('validation');
+      expect(result[0]!.fieldErrors).toEqual({ name: ['String must contain at least 2 character(s)'] });
+    });
+
+    test('answers with the status of the failure', async () => {
+      const post = (path: string, body: string) => handler(new Request(`http://api.test/rpc/${path}`, { method: 'POST', body }));
+
+      expect((await post('users.get', '{"id":"1"}')).status).toBe(200);
+      expect((await post('users.get', '{}')).status).toBe(400);
+      expect((await post('users.get', '{')).status).toBe(400);
+      expect((await post('users.remove', '{}')).status).toBe(404);
+      expect((await post('crash', '{}')).status).toBe(500);
+
+      const get = await handler(new Request('http://api.test/rpc/health'));
+      expect(get.status).toBe(405);
+      expect(get.headers.get('allow')).toBe('POST');
+    });
+
+    test('hides the details of processor failures unless exposed', async () => {
+      const [hidden] = await http.crash({});
+      expect(hidden!.kind).toBe('processor-threw');
+      expect(hidden!.message).toBe('The procedure failed');
+
+      const exposing = createRpcHandler(router, { prefix: '/rpc', exposeErrors: true });
+      const client = createClient<typeof router>(httpLink({ url: 'http://api.test/rpc', fetch: async (url, init) => exposing(new Request(url, init)) }));
+      const [exposed] = await client.crash({});
+      expect(exposed!.message).toBe('database password is hunter2');
+    });
+
+    test('returns transport errors when the server cannot be reached', async () => {
+      const client = createClient<typeof router>(httpLink({
+        url: 'http://api.test/rpc',
+        fetch: async () => {
+          throw new TypeError('fetch failed');
+        }
+      }));
+      const offline = await client.health(undefined);
+      expect(offline[0]!.kind).toBe('transport');
+      expect(offline[0]!.message).toBe('Cannot reach http://api.test/rpc: fetch failed');
+
+      const html = createClient<typeof router>(httpLink({ url: 'http://api.test', fetch: async () => new Response('<html>', { status: 502 }) }));
+      expect((await html.health(undefined))[0]!.message).toBe('Unexpected response from http://api.test (502)');
+    });
+  });
+
+  describe('over a message port', () => {
+    test('calls procedures through worker messages', async () => {
+      const { port1, port2 } = new MessageChannel();
+      const stop = serveWorker(router, port1);
+      const worker = createClient<typeof router>(workerLink(port2));
+
+      const [[createError, user], [totalError]] = await Promise.all([worker.users.create({ name: 'Grace' }), worker.total([99, 2])]);
+
+      expect(createError).toBeNull();
+      expect(user!.createdAt).toBeInstanceOf(Date);
+      expect(totalError!.kind).toBe('output-validation');
+      expect(totalError!.message).toBe('The procedure failed');
+
+      const [error] = await worker.users.get({} as { id: string });
+      expect(error!.fieldErrors).toEqual({ id: ['Required'] });
+
+      stop();
+      port1.close();
+    });
+
+    test('returns a transport error for results that cannot be cloned', async () => {
+      const { port1, port2 } = new MessageChannel();
+      const callbacks = createRouter({ subscribe: procedure(z.string(), (topic) => ({ topic, unsubscribe: () => topic })) });
+      const stop = serveWorker(callbacks, port1);
+      const worker = createClient<typeof callbacks>(workerLink(port2));
+
+      const [error] = await worker.subscribe('news');
+
+      expect(error!.kind).toBe('transport');
+      expect(error!.message).toBe('The result of "subscribe" cannot be sent over the port');
+
+      stop();
+      port1.close();
+    });
+
+    test('returns a transport error when the port closes before responding', async () => {
+      const { port1, port2 } = new MessageChannel();
+      const worker = createClient<typeof router>(workerLink(port2));
+      const controller = new AbortController();
+
+      const call = worker.health(undefined, { signal: controller.signal });
+      port1.close();
+      const [error] = await call;
+
+      expect(error!.kind).toBe('transport');
+      expect(error!.message).toBe('The worker port closed before responding');
+      expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+    });
+
+    test('returns a transport error for inputs that cannot be cloned', async () => {
+      const { port1, port2 } = new MessageChannel();
+      const worker = createClient<typeof router>(workerLink(port2));
+
+      const [error] = await worker.total((() => 1) as unknown as number[]);
+
+      expect(error!.kind).toBe('transport');
+      expect(error!.message).toBe('The input of "total" cannot be sent over the port');
+      port1.close();
+    });
+  });
+
+  test('types the client from the router', () => {
+    const typed = async () => {
+      const [, user] = await http.users.create({ name: 'Ada' });
+      const name: string | undefined = user?.name;
+      // @ts-expect-error the input of users.get is checked
+      await http.users.get({ id: 1 });
+      // @ts-expect-error unknown procedures are rejected
+      await http.users.remove({ id: '1' });
+      return name;
+    };
+    expect(typed).toBeTypeOf('function');
+  });
+});
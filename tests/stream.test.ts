@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'vitest';
+import { Readable } from 'node:stream';
+import { Maybe, AsyncMaybe, validateStream, validateNdjson, splitStream, type StreamTuple } from '../src';
+import { z } from "zod";
+
+const eventSchema = z.object({
+  id: z.number().int(),
+  type: z.enum(['click', 'view'])
+});
+
+type Event = z.infer<typeof eventSchema>;
+
+const collect = async <U>(entries: AsyncIterable<StreamTuple<U>>) => {
+  const tuples: StreamTuple<U>[] = [];
+  for await (const tuple of entries) tuples.push(tuple);
+  return tuples;
+};
+
+describe('validateStream', () => {
+  test('yields a tuple per record of an async iterable', async () => {
+    const source = async function* () {
+      yield { id: 1, type: 'click' };
+      yield { id: 2, type: 'scroll' };
+    };
+
+    const tuples = await collect(validateStream(source(), AsyncMaybe((event: Event) => event.id, eventSchema)));
+
+    expect(tuples.map(([error, result, { line }]) => [error?.kind ?? null, result, line])).toEqual([
+      [null, 1, 1],
+      ['validation', null, 2]
+    ]);
+  });
+});
+
+describe('validateNdjson', () => {
+  test('parses lines split across chunks and reports their line numbers', async () => {
+    const source = Readable.from([
+      Buffer.from('{"id":1,"type":"click"}\n{"id":2,'),
+      Buffer.from('"type":"view"}\r\n\n{"id":3,"type":"tap"}\n')
+    ]);
+
+    const tuples = await collect(validateNdjson(source, Maybe((event: Event) => event.type, eventSchema)));
+
+    expect(tuples.map(([error, result, { line }]) => [error?.kind ?? null, result, line])).toEqual([
+      [null, 'click', 1],
+      [null, 'view', 2],
+      ['validation', null, 4]
+    ]);
+  });
+
+  test('reports malformed JSON as parse errors', async () => {
+    const source = Readable.from(['{"id":1,"type":"click"}\n', '{"id":2,"type":\n', '{"id":3,"type":"view"}']);
+
+    const tuples = await collect(validateNdjson(source, Maybe((event: Event) => event.id, eventSchema)));
+
+    const [error, result, record] = tuples[1]!;
+    expect(error!.kind).toBe('parse');
+    expect(error!.message).toBe('Invalid JSON on line 2');
+    expect(result).toBeNull();
+    expect(record).toEqual({ line: 2, input: '{"id":2,"type":' });
+    expect(tuples[2]![1]).toBe(3);
+  });
+});
+
+describe('splitStream', () => {
+  test('sends valid results and rejected records to separate sinks', async () => {
+    const source = Readable.from(['{"id":1,"type":"click"}\n', 'not json\n', '{"id":2,"type":"view"}\n']);
+    const valid: number[] = [];
+    const rejects: string[] = [];
+
+    const counts = await splitStream(validateNdjson(source, Maybe((event: Event) => event.id, eventSchema)), {
+      valid: (id) => {
+        valid.push(id);
+      },
+      invalid: async (error, { line }) => {
+        rejects.push(`${line}: ${error.kind}`);
+      }
+    });
+
+    expect(counts).toEqual({ valid: 2, invalid: 1 });
+    expect(valid).toEqual([1, 2]);
+    expect(rejects).toEqual(['2: parse']);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, test } from 'vitest';
+import { Maybe, AsyncMaybe, createMetrics, type ErrorEvent, type SettledEvent, type Tracer } from '../src';
+import { z } from "zod";
+
+const signupSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8)
+});
+
+const createTracer = () => {
+  const spans: { name: string; attributes: Record<string, unknown>; ended: boolean }[] = [];
+  const tracer: Tracer = {
+    startSpan: (name) => {
+      const span = { name, attributes: {}, ended: false };
+      spans.push(span);
+      return {
+        setAttributes: (attributes) => Object.assign(span.attributes, attributes),
+        end: () => {
+          span.ended = true;
+        }
+      };
+    }
+  };
+  return { tracer, spans };
+};
+
+describe('hooks', () => {
+  test('onSuccess and onSettled receive the result and step durations', () => {
+    const events: unknown[] = [];
+    const signup = Maybe((user) => user.email, signupSchema, {
+      name: 'signup',
+      onSuccess: (event) => events.push(['success', event]),
+      onError: (event) => events.push(['error', event]),
+      onSettled: (event) => events.push(['settled', event])
+    });
+
+    signup({ email: 'ada@example.com', password: 'correct horse' });
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject(['success', { name: 'signup', result: 'ada@example.com' }]);
+    expect(events[1]).toMatchObject(['settled', { ok: true, result: 'ada@example.com' }]);
+    const [, { durations }] = events[0] as [string, SettledEvent];
+    expect(durations.validation).toBeGreaterThanOrEqual(0);
+    expect(durations.processor).toBeGreaterThanOrEqual(0);
+    expect(durations.output).toBeUndefined();
+    expect(durations.total).toBeGreaterThanOrEqual(durations.validation!);
+  });
+
+  test('onError receives the kind and the failing paths', () => {
+    const errors: ErrorEvent[] = [];
+    const signup = Maybe((user) => user, signupSchema, { onError: (event) => errors.push(event) });
+
+    signup({ email: 'nope', password: 'short' });
+
+    expect(errors[0]).toMatchObject({ kind: 'validation', paths: ['email', 'password'] });
+    expect(errors[0]!.durations.processor).toBeUndefined();
+  });
+
+  test('exceptions thrown by hooks do not change the result', () => {
+    const signup = Maybe((user) => user.email, signupSchema, {
+      onSettled: () => {
+        throw new Error('metrics backend down');
+      }
+    });
+
+    const [error, result] = signup({ email: 'ada@example.com', password: 'correct horse' });
+
+    expect(error).toBeNull();
+    expect(result).toBe('ada@example.com');
+  });
+
+  test('async validators report timeouts', async () => {
+    const kinds: string[] = [];
+    const slow = AsyncMaybe(() => new Promise((resolve) => setTimeout(resolve, 50)), z.unknown(), {
+      onError: (event) => kinds.push(event.kind)
+    });
+
+    await slow(null, { timeout: 5 });
+
+    expect(kinds).toEqual(['timeout']);
+  });
+});
+
+describe('tracer', () => {
+  test('creates one span per call with outcome attributes', async () => {
+    const { tracer, spans } = createTracer();
+    const signup = AsyncMaybe(async (user) => user.email, signupSchema, { name: 'signup', tracer });
+
+    await signup({ email: 'ada@example.com', password: 'correct horse' });
+    await signup({ email: 'nope', password: 'correct horse' });
+
+    expect(spans).toHaveLength(2);
+    expect(spans.every((span) => span.name === 'signup' && span.ended)).toBe(true);
+    expect(spans[0]!.attributes).toMatchObject({ 'maybe.name': 'signup', 'maybe.ok': true });
+    expect(spans[1]!.attributes).toMatchObject({ 'maybe.ok': false, 'maybe.error.kind': 'validation', 'maybe.issue.paths': ['email'] });
+    expect(spans[1]!.attributes['maybe.duration.validation']).toBeTypeOf('number');
+  });
+});
+
+describe('createMetrics', () => {
+  test('counts calls, error kinds and failures per field', () => {
+    const metrics = createMetrics();
+    const signup = Maybe((user) => user, signupSchema, { name: 'signup', onSettled: metrics.record });
+    const login = Maybe(() => {
+      throw new Error('locked');
+    }, z.unknown(), { name: 'login', onSettled: metrics.record });
+
+    signup({ email: 'ada@example.com', password: 'correct horse' });
+    signup({ email: 'nope', password: 'short' });
+    signup({ email: 'nope', password: 'correct horse' });
+    login({});
+
+    expect(metrics.get('signup')).toMatchObject({
+      calls: 3,
+      succeeded: 1,
+      failed: 2,
+      errorKinds: { validation: 2 },
+      fieldFailures: { email: 2, password: 1 }
+    });
+    expect(metrics.get('signup').durations.validation.count).toBe(3);
+    expect(metrics.get()).toMatchObject({ calls: 4, errorKinds: { validation: 2, 'processor-threw': 1 } });
+    expect(Object.keys(metrics.snapshot())).toEqual(['signup', 'login']);
+
+    metrics.reset();
+
+    expect(metrics.get().calls).toBe(0);
+  });
+});
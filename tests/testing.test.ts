@@ -0,0 +1,177 @@
+import { describe, expect, test } from 'vitest';
+import { Maybe, AsyncMaybe, withStringErrors } from '../src';
+import { sample, samples, invalidSamples, forAll, matchers, createRandom } from '../src/testing';
+import { z } from "zod";
+
+expect.extend(matchers);
+
+const orderSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string().email(),
+  quantity: z.number().int().min(1).max(10),
+  status: z.enum(['pending', 'paid']),
+  note: z.string().max(20).optional(),
+  placedAt: z.date(),
+  shippingAddress: z.object({
+    city: z.string().min(2),
+    zip: z.string().regex(/^\d{5}$/)
+  }),
+  items: z.array(z.object({ sku: z.string().length(6), price: z.number().positive() })).min(1)
+});
+
+const overrides = { 'shippingAddress.zip': (random: ReturnType<typeof createRandom>) => String(random.int(10000, 99999)) };
+
+const validateOrder = Maybe((order) => order.items.length, orderSchema);
+
+describe('Testing toolkit', () => {
+  describe('createRandom', () => {
+    test('yields the same sequence for the same seed', () => {
+      const first = createRandom(42);
+      const second = createRandom(42);
+      const sequence = Array.from({ length: 5 }, () => first.next());
+
+      expect(Array.from({ length: 5 }, () => second.next())).toEqual(sequence);
+      expect(createRandom(43).next()).not.toBe(sequence[0]);
+    });
+
+    test('keeps integers within bounds', () => {
+      const random = createRandom(7);
+      const values = Array.from({ length: 200 }, () => random.int(3, 5));
+
+      expect(new Set(values)).toEqual(new Set([3, 4, 5]));
+    });
+  });
+
+  describe('sample', () => {
+    test('generates inputs the schema accepts', () => {
+      for (const input of samples(orderSchema, 50, { overrides })) {
+        expect(orderSchema.safeParse(input).success).toBe(true);
+      }
+    });
+
+    test('is deterministic for a given seed', () => {
+      expect(sample(orderSchema, { seed: 5, overrides })).toEqual(sample(orderSchema, { seed: 5, overrides }));
+      expect(sample(orderSchema, { seed: 5, overrides })).not.toEqual(sample(orderSchema, { seed: 6, overrides }));
+    });
+
+    test('uses overrides, with wildcards for array items', () => {
+      const input = sample(orderSchema, { overrides: { ...overrides, 'items.*.sku': 'ABC123' } });
+
+      expect(input.items.every((item: { sku: string }) => item.sku === 'ABC123')).toBe(true);
+    });
+
+    test('explains which paths need an override when refinements keep failing', () => {
+      expect(() => sample(orderSchema, { maxAttempts: 5 })).toThrow(/shippingAddress\.zip/);
+    });
+
+    test('covers unions, tuples, records and recursive schemas', () => {
+      type Node = { name: string; children: Node[] };
+      const node: z.ZodType<Node> = z.lazy(() => z.object({ name: z.string(), children: z.array(node) }));
+      const schema = z.object({
+        shape: z.discriminatedUnion('type', [
+          z.object({ type: z.literal('circle'), radius: z.number().positive() }),
+          z.object({ type: z.literal('square'), side: z.number().positive() })
+        ]),
+        point: z.tuple([z.number(), z.number()]),
+        labels: z.record(z.string().min(1), z.boolean()),
+        tree: node,
+        total: z.string().transform(Number).pipe(z.number()).or(z.bigint())
+      });
+
+      for (const input of samples(schema, 20, { overrides: { total: '12' } })) {
+        expect(schema.safeParse(input).success).toBe(true);
+      }
+    });
+  });
+
+  describe('invalidSamples', () => {
+    test('generates inputs failing at a single known path', () => {
+      const invalid = invalidSamples(orderSchema, { overrides });
+
+      expect(invalid.length).toBeGreaterThan(0);
+      for (const { path, input } of invalid) {
+        expect(validateOrder(input)).toFailAt(path);
+      }
+    });
+
+    test('covers missing fields, wrong types and broken constraints', () => {
+      const invalid = invalidSamples(orderSchema, { overrides });
+      const codes = (path: string) => invalid.filter((item) => item.path === path).flatMap((item) => item.issues.map((issue) => issue.code));
+
+      expect(codes('email')).toEqual(expect.arrayContaining(['invalid_type', 'invalid_string']));
+      expect(codes('quantity')).toEqual(expect.arrayContaining(['too_small', 'too_big', 'invalid_type']));
+      expect(codes('status')).toContain('invalid_enum_value');
+      expect(codes('shippingAddress.zip')).toContain('invalid_string');
+      expect(invalid.filter((item) => item.path === 'note').every((item) => 'note' in (item.input as object))).toBe(true);
+    });
+  });
+
+  describe('forAll', () => {
+    test('checks a property against generated samples', () => {
+      let runs = 0;
+      forAll(orderSchema, (order) => {
+        runs += 1;
+        expect(validateOrder(order)).toBeOk(order.items.length);
+      }, { runs: 25, overrides });
+
+      expect(runs).toBe(25);
+    });
+
+    test('reports the failing sample and the seed', () => {
+      expect(() =>
+        forAll(z.number().int().min(0).max(100), (value) => {
+          if (value > 50) throw new Error('too large');
+        }, { seed: 3 })
+      ).toThrow(/Property failed on run \d+ \(seed 3\) with \d+: too large/);
+    });
+
+    test('waits for async properties', async () => {
+      const validate = AsyncMaybe(async (order) => order.quantity * 2, orderSchema);
+
+      await forAll(orderSchema, async (order) => {
+        expect(await validate(order)).toBeOk(order.quantity * 2);
+      }, { runs: 10, overrides });
+      await expect(forAll(z.string(), async () => { throw new Error('nope'); })).rejects.toThrow(/run 1/);
+    });
+  });
+
+  describe('matchers', () => {
+    const schema = z.object({ shippingAddress: z.object({ zip: z.string().regex(/^\d{5}$/) }) });
+    const validate = Maybe((order) => order.shippingAddress.zip, schema);
+
+    test('toBeOk checks success and the value', () => {
+      expect(validate({ shippingAddress: { zip: '75001' } })).toBeOk();
+      expect(validate({ shippingAddress: { zip: '75001' } })).toBeOk('75001');
+      expect(validate({ shippingAddress: { zip: '75001' } })).not.toBeOk('69001');
+      expect(validate({})).not.toBeOk();
+    });
+
+    test('toBeErr checks failure and its kind', () => {
+      expect(validate({})).toBeErr();
+      expect(validate({})).toBeErr('validation');
+      expect(validate({})).not.toBeErr('processor-threw');
+      expect(validate({ shippingAddress: { zip: '75001' } })).not.toBeErr();
+    });
+
+    test('toFailAt checks the path and code of an issue', () => {
+      const result = validate({ shippingAddress: { zip: 'abc' } });
+
+      expect(result).toFailAt('shippingAddress.zip');
+      expect(result).toFailAt('shippingAddress.zip', 'invalid_string');
+      expect(result).not.toFailAt('shippingAddress.zip', 'invalid_type');
+      expect(result).not.toFailAt('shippingAddress');
+    });
+
+    test('reads legacy string errors', () => {
+      const legacy = withStringErrors(validate);
+
+      expect(legacy({ shippingAddress: { zip: 'abc' } })).toFailAt('shippingAddress.zip', 'invalid_string');
+      expect(legacy({ shippingAddress: { zip: '75001' } })).toBeOk('75001');
+    });
+
+    test('explains failures', () => {
+      expect(() => expect(validate({ shippingAddress: { zip: 'abc' } })).toBeOk()).toThrow(/shippingAddress\.zip: invalid_string/);
+      expect(() => expect('nope').toBeErr()).toThrow(/expected an \[error, result\] tuple/);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'vitest';
-import { Maybe, AsyncMaybe } from '../src';
+import { Maybe, AsyncMaybe, MaybeError, withStringErrors } from '../src';
 import { z } from "zod";
 
 // Base validation schema
@@ -40,7 +40,7 @@ describe('Maybe - Synchronous Tests', () => {
       
       expect(error).not.toBeNull();
       expect(result).toBeNull();
-      expect(JSON.parse(error!)).toEqual(expect.arrayContaining([
+      expect(error!.issues).toEqual(expect.arrayContaining([
         expect.objectContaining({
           message: 'String must contain at least 2 character(s)'
         }),
@@ -52,6 +52,40 @@ describe('Maybe - Synchronous Tests', () => {
         })
       ]));
     });
+    test('exposes field errors keyed by dotted path', () => {
+      const schema = z.object({
+        shippingAddress: z.object({ zip: z.string().regex(/^\d{5}$/) }),
+        items: z.array(z.object({ qty: z.number().min(1) }))
+      });
+      const validate = Maybe((order) => order.items.length, schema);
+
+      const [error] = validate({ shippingAddress: { zip: 'ABCDE' }, items: [{ qty: 0 }] });
+
+      expect(error!.kind).toBe('validation');
+      expect(error!.fieldErrors).toEqual({
+        'shippingAddress.zip': ['Invalid'],
+        'items.0.qty': ['Number must be greater than or equal to 1']
+      });
+    });
+
+    test('renders a readable error string', () => {
+      const validateUser = Maybe(processUser, userSchema);
+
+      const [error] = validateUser({ name: 'Alice', age: 30, email: 'invalid' });
+
+      expect(String(error)).toBe('MaybeError [validation]: email: Invalid email');
+    });
+
+    test('keeps returning JSON error strings through withStringErrors', () => {
+      const validateUser = withStringErrors(Maybe(processUser, userSchema));
+
+      const [error, result] = validateUser({ name: 'A', age: 30, email: 'alice@example.com' });
+
+      expect(result).toBeNull();
+      expect(JSON.parse(error!)).toEqual([
+        expect.objectContaining({ path: ['name'], message: 'String must contain at least 2 character(s)' })
+      ]);
+    });
   });
 
   describe('Advanced Validations', () => {
@@ -190,6 +224,19 @@ describe('Maybe - Synchronous Tests', () => {
       expect(result).toBe(4);
     });
 
+    test('passes parsed output of coercions and defaults to the processor', () => {
+      const querySchema = z.object({
+        page: z.coerce.number().int().positive(),
+        sort: z.enum(['asc', 'desc']).default('asc')
+      });
+      const validate = Maybe(({ page, sort }) => `${sort}:${page + 1}`, querySchema);
+
+      const [error, result] = validate({ page: '2' });
+
+      expect(error).toBeNull();
+      expect(result).toBe('asc:3');
+    });
+
     test('validates number with constraints', () => {
       const schema = z.number()
         .int()
@@ -203,6 +250,59 @@ describe('Maybe - Synchronous Tests', () => {
       expect(result).toBe(84);
     });
   });
+
+  describe('Processor Errors', () => {
+    test('captures exceptions thrown by the processor', () => {
+      const failure = new TypeError('Cannot read properties of undefined');
+      const validateUser = Maybe((user: User) => {
+        throw failure;
+      }, userSchema);
+
+      const [error, result] = validateUser({ name: 'Alice', age: 30, email: 'alice@example.com' });
+
+      expect(result).toBeNull();
+      expect(error!.kind).toBe('processor-threw');
+      expect(error!.message).toBe('Cannot read properties of undefined');
+      expect(error!.cause).toBe(failure);
+      expect(error!.stack).toContain(`Caused by: ${failure.stack}`);
+    });
+
+    test('does not run the processor when validation fails', () => {
+      let called = false;
+      const validateUser = Maybe((user: User) => {
+        called = true;
+        return user;
+      }, userSchema);
+
+      const [error] = validateUser({ name: 'A', age: 30, email: 'alice@example.com' });
+
+      expect(error!.kind).toBe('validation');
+      expect(called).toBe(false);
+    });
+  });
+
+  describe('Output Schemas', () => {
+    const userOutputSchema = userSchema.extend({ displayName: z.string().min(1) });
+
+    test('returns the parsed output when it matches the output schema', () => {
+      const validateUser = Maybe(processUser, userSchema, { output: userOutputSchema });
+
+      const [error, result] = validateUser({ name: 'Alice', age: 30, email: 'alice@example.com' });
+
+      expect(error).toBeNull();
+      expect(result).toEqual({ name: 'Alice', age: 30, email: 'alice@example.com', displayName: 'Alice (30)' });
+    });
+
+    test('reports output drift as an output-validation error', () => {
+      const validateUser = Maybe((user: User) => ({ ...user, displayName: '' }), userSchema, { output: userOutputSchema });
+
+      const [error, result] = validateUser({ name: 'Alice', age: 30, email: 'alice@example.com' });
+
+      expect(result).toBeNull();
+      expect(error!.kind).toBe('output-validation');
+      expect(Object.keys(error!.fieldErrors)).toEqual(['displayName']);
+    });
+  });
 });
 
 describe('AsyncMaybe - Asynchronous Tests', () => {
@@ -230,7 +330,7 @@ describe('AsyncMaybe - Asynchronous Tests', () => {
       
       expect(error).not.toBeNull();
       expect(result).toBeNull();
-      expect(JSON.parse(error!)).toEqual(expect.arrayContaining([
+      expect(error!.issues).toEqual(expect.arrayContaining([
         expect.objectContaining({
           message: 'String must contain at least 2 character(s)'
         }),
@@ -244,6 +344,18 @@ describe('AsyncMaybe - Asynchronous Tests', () => {
     });
   });
 
+  describe('Output Schemas', () => {
+    test('rejects processor output that does not match the output schema', async () => {
+      const validate = AsyncMaybe((str: string) => str.length, z.string(), { output: z.number().max(3) });
+
+      const [error, result] = await validate(Promise.resolve('hello'));
+
+      expect(result).toBeNull();
+      expect(error!.kind).toBe('output-validation');
+      expect(error!.issues[0]!.code).toBe('too_big');
+    });
+  });
+
   describe('Error Handling', () => {
     test('handles rejected promises', async () => {
       const validateUser = AsyncMaybe(processUser, userSchema);
@@ -251,8 +363,22 @@ describe('AsyncMaybe - Asynchronous Tests', () => {
       
       const [error, result] = await validateUser(failingPromise);
       
-      expect(error).toBe('Unknown error');
+      expect(error).toBeInstanceOf(MaybeError);
+      expect(error!.kind).toBe('input-rejected');
+      expect(result).toBeNull();
+    });
+
+    test('distinguishes processor exceptions from rejected input', async () => {
+      const failure = new Error('Database unavailable');
+      const validateUser = AsyncMaybe((user: User) => {
+        throw failure;
+      }, userSchema);
+
+      const [error, result] = await validateUser(Promise.resolve({ name: 'Alice', age: 30, email: 'alice@example.com' }));
+
       expect(result).toBeNull();
+      expect(error!.kind).toBe('processor-threw');
+      expect(error!.cause).toBe(failure);
     });
 
     test('validates with custom async schema', async () => {
@@ -352,8 +478,79 @@ describe('AsyncMaybe - Asynchronous Tests', () => {
       
       const [error, result] = await validateUser(timeoutPromise);
       
-      expect(error).toBe('Unknown error');
+      expect(error).toBeInstanceOf(MaybeError);
+      expect(error!.kind).toBe('input-rejected');
+      expect(result).toBeNull();
+    });
+
+    test('times out slow processors', async () => {
+      const validate = AsyncMaybe(
+        (str: string) => new Promise<string>((resolve) => setTimeout(() => resolve(str), 200)),
+        z.string()
+      );
+
+      const [error, result] = await validate('slow', { timeout: 20 });
+
+      expect(result).toBeNull();
+      expect(error!.kind).toBe('timeout');
+    });
+
+    test('times out pending input promises', async () => {
+      const validateUser = AsyncMaybe(processUser, userSchema);
+
+      const [error] = await validateUser(new Promise<User>(() => {}), { timeout: 20 });
+
+      expect(error!.kind).toBe('timeout');
+    });
+
+    test('stops waiting when the signal aborts', async () => {
+      const controller = new AbortController();
+      const validate = AsyncMaybe(
+        (str: string) => new Promise<string>((resolve) => setTimeout(() => resolve(str), 200)),
+        z.string()
+      );
+
+      const pending = validate('slow', { signal: controller.signal });
+      controller.abort(new Error('Client disconnected'));
+      const [error, result] = await pending;
+
       expect(result).toBeNull();
+      expect(error!.kind).toBe('aborted');
+      expect(error!.cause).toEqual(new Error('Client disconnected'));
+    });
+
+    test('does not run when the signal is already aborted', async () => {
+      let called = false;
+      const validate = AsyncMaybe((str: string) => {
+        called = true;
+        return str;
+      }, z.string());
+
+      const controller = new AbortController();
+      controller.abort();
+
+      const [error] = await validate('test', { signal: controller.signal });
+
+      expect(error!.kind).toBe('aborted');
+      expect(called).toBe(false);
+    });
+
+    test('settles with an error when a step throws, even with a signal', async () => {
+      let reads = 0;
+      const data = {
+        a: 'not a number',
+        get b() {
+          reads += 1;
+          if (reads > 1) throw new Error('b can only be read once');
+          return 'ok';
+        }
+      };
+      const validate = AsyncMaybe((value) => value, z.object({ a: z.number().optional(), b: z.string() }), { lenient: true });
+
+      const [error] = await validate(data, { signal: new AbortController().signal });
+
+      expect(error!.kind).toBe('validation');
+      expect(error!.message).toBe('b can only be read once');
     });
 
     test('validates async transformation', async () => {
@@ -366,8 +563,19 @@ describe('AsyncMaybe - Asynchronous Tests', () => {
       const [error, result] = await validate(Promise.resolve('test'));
       
       expect(error).toBeNull();
-      const upperResult = await result;
-      expect(upperResult).toBe('TEST');
+      expect(result).toBe('TEST');
+    });
+
+    test('reports rejected async processors', async () => {
+      const validate = AsyncMaybe(async (str: string) => {
+        throw new Error(`Cannot save ${str}`);
+      }, z.string());
+
+      const [error, result] = await validate(Promise.resolve('test'));
+
+      expect(result).toBeNull();
+      expect(error!.kind).toBe('processor-threw');
+      expect(error!.message).toBe('Cannot save test');
     });
 
     test('handles JSON parsing errors', async () => {
@@ -442,4 +650,4 @@ describe('AsyncMaybe - Asynchronous Tests', () => {
       expect(result).toBe('test@example.com');
     });
   });
-}); 
\ No newline at end of file
+}); 
\ No newline at end of file
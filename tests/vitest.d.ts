@@ -0,0 +1,6 @@
+import type { MaybeMatchers } from '../src/testing';
+
+declare module '@vitest/expect' {
+  interface Assertion<T = any> extends MaybeMatchers<T> {}
+  interface AsymmetricMatchersContaining extends MaybeMatchers {}
+}